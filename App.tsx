@@ -1,11 +1,35 @@
-import React, { useState, useCallback } from 'react';
-import { AppState, ProcessedSlide, ConversionMode } from './types';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
+import { AppState, ProcessedSlide, ConversionMode, SlideContent, AnalyzerConfig, AnalysisResult, BrandTemplate, RenderQuality, NotesStrategy } from './types';
 import Dropzone from './components/Dropzone';
 import SlidePreview from './components/SlidePreview';
-import { convertPdfToImages } from './services/pdfUtils';
-import { analyzeSlideImage } from './services/geminiService';
-import { generatePptx, generateImagePptx } from './services/pptBuilder';
-import { FileDown, Loader2, Sparkles, RefreshCw, Presentation, Image as ImageIcon } from 'lucide-react';
+import SlideEditor from './components/SlideEditor';
+import AnalyzerSettings from './components/AnalyzerSettings';
+import PagePicker from './components/PagePicker';
+import BrandTemplateSettings from './components/BrandTemplateSettings';
+import RenderQualitySettings from './components/RenderQualitySettings';
+import NetworkNotice from './components/NetworkNotice';
+import NotesSettings from './components/NotesSettings';
+import AccessibilityReport from './components/AccessibilityReport';
+import { extractInputTextLayer, InputPage, readInputPages, renderInputPages, slideSource } from './services/inputFiles';
+import { createAnalyzer, DEFAULT_ANALYZER_CONFIG } from './services/analyzers';
+import { createJobQueue, retryWithBackoff } from './services/analysisQueue';
+import { loadProject, saveProject } from './services/projectFile';
+import { getAnalysisCacheKey, getCachedAnalysis, putCachedAnalysis } from './services/analysisCache';
+import { EXPORTERS, ExportFormat, getExporter } from './services/exporters';
+import { baseFileName, canSaveFileAs, canShareFile, downloadBlob, ExportedFile, saveFileAs, shareFile } from './services/download';
+import { extractDeckTheme } from './services/deckTheme';
+import { getSavedBrandTemplate } from './services/brandTemplate';
+import { DEFAULT_RENDER_QUALITY, RENDER_PRESETS } from './services/renderQuality';
+import { prepareModelImage, revokePageImages } from './services/pageImages';
+import { checkNetworkAccess, getUnavailableFeatures } from './services/networkStatus';
+import { DEFAULT_NOTES_STRATEGY } from './services/speakerNotes';
+import { buildAccessibilityReport } from './services/accessibility';
+import { modeWarnings } from './services/slideValidation';
+import { FileDown, Loader2, Sparkles, RefreshCw, Presentation, Image as ImageIcon, Type as TypeIcon, Pencil, XCircle, Save, Layers, Palette, Files, Download, FolderDown, Share2 } from 'lucide-react';
+
+// Modes whose pages go through the slide analyzer; image-only decks only when their pages are to be described
+const usesAnalyzer = (mode: ConversionMode, describePages: boolean): boolean =>
+  mode === 'AI_EXTRACT' || mode === 'HYBRID' || (mode === 'IMAGE_ONLY' && describePages);
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
@@ -13,108 +37,299 @@ const App: React.FC = () => {
   const [progress, setProgress] = useState<{current: number, total: number}>({current: 0, total: 0});
   const [error, setError] = useState<string | null>(null);
   const [mode, setMode] = useState<ConversionMode>('AI_EXTRACT');
+  // Image-only decks: have the analyzer describe each page so the pictures get alt text
+  const [describePages, setDescribePages] = useState(false);
+  const analyzing = usesAnalyzer(mode, describePages);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [concurrency, setConcurrency] = useState(3);
+  const [sourceFileName, setSourceFileName] = useState('');
+  const [sourceFileNames, setSourceFileNames] = useState<string[]>([]);
+  const [pendingInput, setPendingInput] = useState<{ files: File[]; pages: InputPage[] } | null>(null);
+  const [splitOutput, setSplitOutput] = useState(false);
+  const [analyzerConfig, setAnalyzerConfig] = useState<AnalyzerConfig>(DEFAULT_ANALYZER_CONFIG);
+  const analyzer = useMemo(() => createAnalyzer(analyzerConfig), [analyzerConfig]);
+  const abortRef = useRef<AbortController | null>(null);
+  // Deck-level styles shared by the analyzed slides; recomputed as slides are analyzed or edited
+  const deckTheme = useMemo(() => extractDeckTheme(slides), [slides]);
+  const [brandTemplate, setBrandTemplate] = useState<BrandTemplate | null>(getSavedBrandTemplate);
+  const [useBrandTemplate, setUseBrandTemplate] = useState(true);
+  const activeTemplate = useBrandTemplate ? brandTemplate ?? undefined : undefined;
+  const accessibilityIssues = useMemo(() => buildAccessibilityReport(slides, mode, deckTheme, activeTemplate), [slides, mode, deckTheme, activeTemplate]);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('PPTX');
+  // Null until the user picks one: then the PDF's own notes win when it has any
+  const [notesChoice, setNotesChoice] = useState<NotesStrategy | null>(null);
+  const notesStrategy = notesChoice ?? (slides.some(s => s.sourceNotes) ? 'ORIGINAL' : DEFAULT_NOTES_STRATEGY);
+  // The last export, kept so it can be downloaded again or shared without rebuilding it
+  const [exported, setExported] = useState<ExportedFile | null>(null);
+  const shareable = useMemo(() => exported !== null && canShareFile(exported), [exported]);
+  const [renderQuality, setRenderQuality] = useState<RenderQuality>(DEFAULT_RENDER_QUALITY);
+  const renderPreset = RENDER_PRESETS[renderQuality];
+  // Unknown until the startup check has finished; assume online meanwhile so nothing flashes
+  const [networkOnline, setNetworkOnline] = useState<boolean | null>(null);
+  const unavailableFeatures = useMemo(() => getUnavailableFeatures(networkOnline ?? true), [networkOnline]);
+
+  // Startup check, repeated whenever the browser reports the connection changing
+  useEffect(() => {
+      let cancelled = false;
+      const check = () => checkNetworkAccess().then(online => { if (!cancelled) setNetworkOnline(online); });
+      check();
+      window.addEventListener('online', check);
+      window.addEventListener('offline', check);
+      return () => {
+          cancelled = true;
+          window.removeEventListener('online', check);
+          window.removeEventListener('offline', check);
+      };
+  }, []);
+
+  // Page images are object URLs, so discarded slides have to release them explicitly
+  const replaceSlides = (next: ProcessedSlide[]) => {
+      setSlides(prev => {
+          revokePageImages(prev);
+          return next;
+      });
+  };
 
-  const handleFileAccepted = useCallback(async (file: File) => {
+  // Step 1: show lightweight thumbnails so the user can pick and order pages before conversion.
+  // Several PDFs and images can come in at once; their pages are offered as one list.
+  const handleFilesAccepted = async (files: File[]) => {
     try {
       setAppState(AppState.PROCESSING_PDF);
       setError(null);
-      
-      const images = await convertPdfToImages(file);
-      
-      const initialSlides: ProcessedSlide[] = images.map(img => ({
-        originalImage: img,
-        analysis: null,
-        status: 'pending'
-      }));
-      
-      setSlides(initialSlides);
-      setProgress({ current: 0, total: initialSlides.length });
-      
+      // The first file names the merged output
+      setSourceFileName(files[0].name);
+      setSourceFileNames(files.map(f => f.name));
+      setSplitOutput(false);
+      const pages = await readInputPages(files);
+      setPendingInput({ files, pages });
+      setAppState(AppState.SELECTING_PAGES);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to read the files. Please try simpler or fewer files.");
+      setAppState(AppState.ERROR);
+    }
+  };
+
+  // Step 2: only the selected pages are rendered at full scale and converted
+  const startConversion = useCallback(async (files: File[], selection: InputPage[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    // Slides are added as they come in, so a cancel keeps the ones already converted
+    let received = 0;
+    const addSlide = (slide: ProcessedSlide) => {
+      received++;
+      setSlides(prev => [...prev, slide]);
+    };
+
+    try {
+      setAppState(AppState.PROCESSING_PDF);
+      setPendingInput(null);
+      setError(null);
+      replaceSlides([]);
+      setProgress({ current: 0, total: 0 });
+
+      if (mode === 'TEXT_LAYER') {
+        // TEXT_LAYER mode - read text straight from the PDF, no Gemini involved
+        const textSlides = await extractInputTextLayer(files, selection, { signal: controller.signal, preset: renderPreset, onSlide: addSlide });
+        setProgress({ current: textSlides.length, total: textSlides.length });
+        setAppState(AppState.REVIEWING);
+        return;
+      }
+
       // Branch logic based on selected mode
-      if (mode === 'AI_EXTRACT') {
-        analyzeSlides(initialSlides);
-      } else {
-        // IMAGE_ONLY mode - skip Gemini analysis
-        await createSimplePptx(initialSlides);
+      if (analyzing) {
+        await analyzeSlides(files, selection, controller.signal, addSlide);
+        return;
       }
+
+      // IMAGE_ONLY mode - skip Gemini analysis, the pages are ready as they are
+      const pages = await renderInputPages(files, selection, {
+        signal: controller.signal,
+        preset: renderPreset,
+        onPage: (page, index) => addSlide({
+          originalImage: page.image,
+          pageSize: page.pageSize,
+          ...(page.notes ? { sourceNotes: page.notes } : {}),
+          analysis: null,
+          status: 'done',
+          ...slideSource(files, selection[index])
+        }),
+      });
+      setProgress({ current: pages.length, total: pages.length });
+      setAppState(AppState.REVIEWING);
       
     } catch (err) {
+      if (controller.signal.aborted) {
+        // Cancelled while reading the PDF - keep whatever pages made it through,
+        // or go back to the upload step when there are none
+        setAppState(received > 0 ? AppState.REVIEWING : AppState.IDLE);
+        return;
+      }
       console.error(err);
       setError("Failed to process PDF. Please try a simpler file.");
       setAppState(AppState.ERROR);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
-  }, [mode]);
+  }, [mode, analyzing, concurrency, analyzer, renderPreset]);
 
-  // Logic for IMAGE_ONLY mode
-  const createSimplePptx = async (currentSlides: ProcessedSlide[]) => {
-      setAppState(AppState.GENERATING_PPT);
-      // Wait a brief moment so UI updates
-      await new Promise(r => setTimeout(r, 500));
-      
+  const updateSlide = (index: number, patch: Partial<ProcessedSlide>) => {
+      setSlides(prev => prev.map((s, i) => i === index ? { ...s, ...patch } : s));
+  };
+
+  // Analyzes one slide, retrying rate limits and server errors with backoff.
+  // Unchanged pages are served from the local cache unless bypassCache is set (explicit re-analyze).
+  // A previous analysis is kept if the attempt fails; a cancelled attempt leaves the slide pending.
+  const analyzeSlideAt = async (index: number, pageImage: string, signal?: AbortSignal, bypassCache = false) => {
+      updateSlide(index, { status: 'analyzing' });
       try {
-          const updatedSlides = currentSlides.map(s => ({ ...s, status: 'done' as const }));
-          setSlides(updatedSlides);
-          
-          await generateImagePptx(updatedSlides);
-          setAppState(AppState.COMPLETED);
+          // The model gets its own, smaller copy of the page, whatever the render quality
+          const image = await prepareModelImage(pageImage, renderPreset.modelWidth);
+          const cacheKey = await getAnalysisCacheKey(image, analyzer.id);
+          const cached = bypassCache ? null : await getCachedAnalysis(cacheKey);
+          if (cached) {
+              updateSlide(index, { analysis: cached.analysis, warnings: [...cached.warnings, ...modeWarnings(cached.analysis, mode)], fromCache: true, status: 'done' });
+              return;
+          }
+
+          const result = await retryWithBackoff<AnalysisResult>(() => analyzer.analyzeSlideImage(image, signal), { signal });
+          updateSlide(index, { analysis: result.analysis, warnings: [...result.warnings, ...modeWarnings(result.analysis, mode)], fromCache: false, status: 'done' });
+          await putCachedAnalysis(cacheKey, result);
       } catch (err) {
-          console.error(err);
-          setError("Failed to generate PowerPoint file.");
-          setAppState(AppState.ERROR);
+          if (signal?.aborted) {
+              updateSlide(index, { status: 'pending' });
+              return;
+          }
+          console.error(`Error analyzing slide ${index + 1}`, err);
+          updateSlide(index, { status: 'error' });
       }
   };
 
-  // Logic for AI_EXTRACT mode
-  const analyzeSlides = async (currentSlides: ProcessedSlide[]) => {
-    setAppState(AppState.ANALYZING_SLIDES);
-    
-    // Process in batches or sequentially to avoid rate limits if necessary
-    // Here we do sequentially to show nice progress
-    const updatedSlides = [...currentSlides];
-
-    for (let i = 0; i < updatedSlides.length; i++) {
-        // Update status to analyzing
-        updatedSlides[i] = { ...updatedSlides[i], status: 'analyzing' };
-        setSlides([...updatedSlides]);
-
-        try {
-            const analysis = await analyzeSlideImage(updatedSlides[i].originalImage);
-            updatedSlides[i] = { 
-                ...updatedSlides[i], 
-                analysis, 
-                status: 'done' 
-            };
-        } catch (err) {
-            console.error(`Error analyzing slide ${i+1}`, err);
-            updatedSlides[i] = { ...updatedSlides[i], status: 'error' };
+  // Logic for AI_EXTRACT and HYBRID modes
+  // Pages are streamed into the queue as they are rasterized, so analysis starts on page 1
+  // while the rest of the PDF is still rendering.
+  const analyzeSlides = async (files: File[], selection: InputPage[], signal: AbortSignal, addSlide: (slide: ProcessedSlide) => void) => {
+    const queue = createJobQueue<{ index: number; image: string }>({
+        concurrency,
+        signal,
+        run: async ({ index, image }) => {
+            await analyzeSlideAt(index, image, signal);
+            // Count finished slides rather than positions, so progress stays accurate out of order
+            if (!signal.aborted) setProgress(prev => ({ ...prev, current: prev.current + 1 }));
         }
-        
-        // Update state after each slide
-        setSlides([...updatedSlides]);
-        setProgress(prev => ({ ...prev, current: i + 1 }));
+    });
+
+    try {
+        await renderInputPages(files, selection, {
+            signal,
+            preset: renderPreset,
+            onPage: (page, index, pageCount) => {
+                addSlide({
+                    originalImage: page.image,
+                    pageSize: page.pageSize,
+                    ...(page.notes ? { sourceNotes: page.notes } : {}),
+                    analysis: null,
+                    status: 'pending',
+                    ...slideSource(files, selection[index])
+                });
+                setProgress(prev => ({ ...prev, total: pageCount }));
+                setAppState(AppState.ANALYZING_SLIDES);
+                queue.push({ index, image: page.image });
+            }
+        });
+    } finally {
+        // Let in-flight requests settle before leaving, including after a cancel
+        queue.close();
+        await queue.done;
     }
 
+    // Hand over to the user for review; export is a separate step
+    setAppState(AppState.REVIEWING);
+  };
+
+  // Re-opens a saved project: no rasterizing or analysis, straight to review
+  const handleProjectAccepted = async (file: File) => {
+      try {
+          setError(null);
+          const project = await loadProject(file);
+          setMode(project.mode);
+          setSourceFileName(project.sourceFileName);
+          setSourceFileNames(project.sourceFileNames ?? [project.sourceFileName]);
+          setSplitOutput(false);
+          replaceSlides(project.slides);
+          setProgress({ current: project.slides.length, total: project.slides.length });
+          setAppState(AppState.REVIEWING);
+      } catch (err) {
+          console.error(err);
+          setError(err instanceof Error ? err.message : "Could not open project file.");
+          setAppState(AppState.ERROR);
+      }
+  };
+
+  const handleCancel = () => {
+      abortRef.current?.abort();
+  };
+
+  // Export step - builds the deck from the slides as they are now, including manual edits
+  const handleExport = async (format: ExportFormat = 'PPTX') => {
+    const exporter = getExporter(format);
+    setExportFormat(format);
     setAppState(AppState.GENERATING_PPT);
-    try {
-        const validSlides = updatedSlides.filter(s => s.status === 'done' && s.analysis);
-        
-        if (validSlides.length === 0) {
-            throw new Error("No slides were successfully analyzed.");
-        }
+    // Wait a brief moment so UI updates
+    await new Promise(r => setTimeout(r, 500));
 
-        // Pass the full slide objects so builder can access original images for cropping figures
-        await generatePptx(validSlides);
+    try {
+        // Pass the full slide objects so exporters can access original images for cropping figures.
+        setExported(await exporter.export(slides, {
+            mode,
+            baseName: baseFileName(sourceFileName),
+            theme: deckTheme,
+            template: activeTemplate,
+            notes: notesStrategy,
+            sourceFileNames,
+            splitBySource: splitOutput,
+            encoding: renderPreset,
+        }));
         setAppState(AppState.COMPLETED);
     } catch (err) {
         console.error(err);
-        setError("Failed to generate PowerPoint file.");
+        setError(`Failed to generate ${exporter.name} file.`);
         setAppState(AppState.ERROR);
     }
   };
 
+  // Runs Gemini again for a single slide, either to recover from an error, to get a better
+  // result, or to pick up a slide left pending by a cancelled run.
+  const reanalyzeSlide = async (index: number) => {
+      const target = slides[index];
+      if (!target || target.status === 'analyzing') return;
+      // Re-analyzing a finished slide means the user wants a fresh answer, not the cached one
+      await analyzeSlideAt(index, target.originalImage, undefined, target.status === 'done');
+  };
+
+  const handleSlideEdited = (index: number, analysis: SlideContent) => {
+      // The user has reviewed the slide by hand, so earlier validation warnings no longer apply
+      setSlides(prev => prev.map((s, i) => i === index ? { ...s, analysis, warnings: undefined, status: 'done' } : s));
+      setEditingIndex(null);
+  };
+
+  // Cancelling the share sheet or save dialog is not an error; anything else keeps the file in place to retry
+  const handleShare = () => {
+      if (exported) shareFile(exported).catch(err => console.error("Failed to share file", err));
+  };
+
+  const handleSaveAs = () => {
+      if (exported) saveFileAs(exported).catch(err => console.error("Failed to save file", err));
+  };
+
   const handleReset = () => {
+      abortRef.current?.abort();
+      setPendingInput(null);
+      setExported(null);
+      setNotesChoice(null);
       setAppState(AppState.IDLE);
-      setSlides([]);
+      replaceSlides([]);
+      setEditingIndex(null);
       setError(null);
       setProgress({ current: 0, total: 0});
   };
@@ -131,7 +346,7 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold text-slate-900 tracking-tight">SlideShifter</h1>
           </div>
           <div className="flex items-center gap-4">
-             {appState === AppState.COMPLETED && (
+             {(appState === AppState.COMPLETED || appState === AppState.REVIEWING || appState === AppState.ERROR) && (
                  <button 
                     onClick={handleReset}
                     className="text-sm text-slate-600 hover:text-indigo-600 font-medium flex items-center gap-1 transition-colors"
@@ -159,6 +374,8 @@ const App: React.FC = () => {
                     </p>
                 </div>
 
+                <NetworkNotice online={networkOnline ?? true} features={unavailableFeatures} />
+
                 {/* Mode Selection */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <button 
@@ -200,15 +417,96 @@ const App: React.FC = () => {
                             <p className="text-sm text-slate-500 mt-1">Converts slides as high-quality images. Perfect layout match, but text is not editable.</p>
                         </div>
                     </button>
+
+                    <button 
+                        onClick={() => setMode('HYBRID')}
+                        className={`p-6 rounded-xl border-2 transition-all duration-200 text-left relative flex flex-col gap-3
+                            ${mode === 'HYBRID' 
+                                ? 'border-indigo-600 bg-indigo-50 shadow-md ring-1 ring-indigo-600' 
+                                : 'border-slate-200 bg-white hover:border-indigo-300 hover:bg-slate-50'
+                            }`}
+                    >
+                        <div className="flex items-center justify-between w-full">
+                             <div className={`p-2 rounded-lg ${mode === 'HYBRID' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}>
+                                <Layers className="w-6 h-6" />
+                            </div>
+                            {mode === 'HYBRID' && <div className="w-3 h-3 bg-indigo-600 rounded-full animate-pulse" />}
+                        </div>
+                        <div>
+                            <h3 className="font-bold text-slate-900">Hybrid Mode</h3>
+                            <p className="text-sm text-slate-500 mt-1">Keeps the page image as the background and lays editable text over it. Looks like the original, text stays editable.</p>
+                        </div>
+                    </button>
+
+                    <button 
+                        onClick={() => setMode('TEXT_LAYER')}
+                        className={`p-6 rounded-xl border-2 transition-all duration-200 text-left relative flex flex-col gap-3
+                            ${mode === 'TEXT_LAYER' 
+                                ? 'border-indigo-600 bg-indigo-50 shadow-md ring-1 ring-indigo-600' 
+                                : 'border-slate-200 bg-white hover:border-indigo-300 hover:bg-slate-50'
+                            }`}
+                    >
+                        <div className="flex items-center justify-between w-full">
+                             <div className={`p-2 rounded-lg ${mode === 'TEXT_LAYER' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}>
+                                <TypeIcon className="w-6 h-6" />
+                            </div>
+                            {mode === 'TEXT_LAYER' && <div className="w-3 h-3 bg-indigo-600 rounded-full animate-pulse" />}
+                        </div>
+                        <div>
+                            <h3 className="font-bold text-slate-900">Native Text Mode</h3>
+                            <p className="text-sm text-slate-500 mt-1">Reads the PDF's own text layer. Exact text, works offline, no API key. Best for exported decks.</p>
+                        </div>
+                    </button>
                 </div>
 
-                <Dropzone onFileAccepted={handleFileAccepted} isProcessing={false} />
+                {mode === 'IMAGE_ONLY' && (
+                    <label className="flex items-start gap-3 px-4 py-3 bg-white rounded-xl border border-slate-200 text-sm text-slate-600 cursor-pointer">
+                        <input type="checkbox" checked={describePages} onChange={e => setDescribePages(e.target.checked)} className="mt-0.5 accent-indigo-600" />
+                        <span>
+                            <span className="font-medium text-slate-800">Describe pages for screen readers</span>
+                            <span className="block text-slate-500 mt-0.5">Sends each page to the analyzer and uses its description as the picture's alt text. The slides stay images.</span>
+                        </span>
+                    </label>
+                )}
+
+                {analyzing && (
+                    <AnalyzerSettings
+                        config={analyzerConfig}
+                        onChange={setAnalyzerConfig}
+                        concurrency={concurrency}
+                        onConcurrencyChange={setConcurrency}
+                    />
+                )}
+
+                <RenderQualitySettings quality={renderQuality} onChange={setRenderQuality} showModelWidth={analyzing} />
+
+                {(mode === 'AI_EXTRACT' || mode === 'TEXT_LAYER') && (
+                    <BrandTemplateSettings
+                        template={brandTemplate}
+                        onChange={setBrandTemplate}
+                        enabled={useBrandTemplate}
+                        onEnabledChange={setUseBrandTemplate}
+                    />
+                )}
+
+                <Dropzone onFilesAccepted={handleFilesAccepted} onProjectAccepted={handleProjectAccepted} isProcessing={false} />
                 
             </div>
         )}
 
+        {/* Page selection */}
+        {appState === AppState.SELECTING_PAGES && pendingInput && (
+            <PagePicker
+                fileName={pendingInput.files.length > 1 ? `${pendingInput.files.length} files` : pendingInput.files[0].name}
+                thumbnails={pendingInput.pages.map(p => p.thumbnail)}
+                pageLabels={pendingInput.pages.map(p => p.label)}
+                onConfirm={pageNumbers => startConversion(pendingInput.files, pageNumbers.map(n => pendingInput.pages[n - 1]))}
+                onCancel={handleReset}
+            />
+        )}
+
         {/* Processing States */}
-        {appState !== AppState.IDLE && (
+        {appState !== AppState.IDLE && appState !== AppState.SELECTING_PAGES && (
             <div className="space-y-8">
                 {/* Status Bar */}
                 <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 sticky top-20 z-10">
@@ -223,6 +521,9 @@ const App: React.FC = () => {
                             {appState === AppState.GENERATING_PPT && (
                                 <FileDown className="w-6 h-6 text-indigo-600 animate-bounce" />
                             )}
+                            {appState === AppState.REVIEWING && (
+                                <Pencil className="w-6 h-6 text-indigo-600" />
+                            )}
                             {appState === AppState.COMPLETED && (
                                 <div className="bg-green-100 p-1.5 rounded-full">
                                     <FileDown className="w-5 h-5 text-green-600" />
@@ -232,15 +533,21 @@ const App: React.FC = () => {
                             <div>
                                 <h3 className="font-semibold text-slate-900 text-lg">
                                     {appState === AppState.PROCESSING_PDF && "Reading PDF..."}
-                                    {appState === AppState.ANALYZING_SLIDES && `Analyzing Slide ${progress.current} of ${progress.total}`}
-                                    {appState === AppState.GENERATING_PPT && "Building PowerPoint..."}
-                                    {appState === AppState.COMPLETED && "Done! Download started."}
+                                    {appState === AppState.ANALYZING_SLIDES && `Analyzed ${progress.current} of ${progress.total} Slides`}
+                                    {appState === AppState.REVIEWING && "Review your slides"}
+                                    {appState === AppState.GENERATING_PPT && `Building ${getExporter(exportFormat).name}...`}
+                                    {appState === AppState.COMPLETED && "Your file is ready."}
                                     {appState === AppState.ERROR && "Something went wrong."}
                                 </h3>
                                 <p className="text-sm text-slate-500">
-                                    {mode === 'AI_EXTRACT' && appState === AppState.ANALYZING_SLIDES && "Extracting text and layout..."}
-                                    {mode === 'IMAGE_ONLY' && appState === AppState.GENERATING_PPT && "Placing images onto slides..."}
-                                    {appState === AppState.COMPLETED && "Check your downloads folder."}
+                                    {analyzing && appState === AppState.ANALYZING_SLIDES && (mode === 'IMAGE_ONLY' ? `Describing pages with ${analyzer.name}...` : `Extracting text and layout with ${analyzer.name}...`)}
+                                    {mode === 'IMAGE_ONLY' && exportFormat === 'PPTX' && appState === AppState.GENERATING_PPT && "Placing images onto slides..."}
+                                    {mode === 'TEXT_LAYER' && appState === AppState.PROCESSING_PDF && "Reading the PDF text layer..."}
+                                    {appState === AppState.REVIEWING && mode !== 'IMAGE_ONLY' && !slides.some(s => !s.analysis) && "Fix titles, text, layout or figures with Edit, then export."}
+                                    {appState === AppState.REVIEWING && mode !== 'IMAGE_ONLY' && slides.some(s => !s.analysis) && 
+                                        `${slides.filter(s => !s.analysis).length} slide(s) without analysis will be exported as page images. Retry them or export as is.`}
+                                    {appState === AppState.REVIEWING && mode === 'IMAGE_ONLY' && "Pages are ready to be placed onto slides."}
+                                    {appState === AppState.COMPLETED && "Download or share it below, or export the deck in another format."}
                                     {appState === AppState.ERROR && error}
                                 </p>
                             </div>
@@ -250,11 +557,66 @@ const App: React.FC = () => {
                             <div className="w-full md:w-64 bg-slate-100 rounded-full h-2 overflow-hidden">
                                 <div 
                                     className="bg-indigo-600 h-full transition-all duration-300 ease-out"
-                                    style={{ width: `${(progress.current / progress.total) * 100}%` }}
+                                    style={{ width: `${progress.total > 0 ? (progress.current / progress.total) * 100 : 0}%` }}
                                 />
                             </div>
                         )}
+
+                        {(appState === AppState.PROCESSING_PDF || appState === AppState.ANALYZING_SLIDES) && (
+                            <button 
+                                onClick={handleCancel}
+                                className="px-4 py-2 border border-slate-300 hover:border-red-300 hover:text-red-600 text-slate-600 rounded-lg font-medium transition-colors flex items-center gap-2"
+                            >
+                                <XCircle className="w-4 h-4" />
+                                Cancel
+                            </button>
+                        )}
                         
+                        <div className="flex items-center gap-3">
+                        {(appState === AppState.ANALYZING_SLIDES || appState === AppState.REVIEWING || appState === AppState.COMPLETED) && slides.length > 0 && (
+                            <button 
+                                onClick={() => saveProject(slides, mode, sourceFileName, sourceFileNames).catch(err => console.error("Failed to save project", err))}
+                                className="px-4 py-2 border border-slate-300 hover:border-indigo-300 hover:text-indigo-600 text-slate-600 rounded-lg font-medium transition-colors flex items-center gap-2"
+                                title="Save images and analyses so the conversion can be reopened later"
+                            >
+                                <Save className="w-4 h-4" />
+                                Save Project
+                            </button>
+                        )}
+
+                        {appState === AppState.REVIEWING && (
+                            <button 
+                                onClick={() => handleExport()}
+                                disabled={slides.some(s => s.status === 'analyzing')}
+                                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors shadow-sm shadow-indigo-200 flex items-center gap-2"
+                            >
+                                <FileDown className="w-4 h-4" />
+                                Export PowerPoint
+                            </button>
+                        )}
+
+                        {appState === AppState.COMPLETED && (
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={exportFormat}
+                                    onChange={e => setExportFormat(e.target.value as ExportFormat)}
+                                    className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-sm text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                    aria-label="Export format"
+                                >
+                                    {EXPORTERS.map(exporter => (
+                                        <option key={exporter.format} value={exporter.format}>{exporter.name} - {exporter.description}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => handleExport(exportFormat)}
+                                    className="px-4 py-2 border border-slate-300 hover:border-indigo-300 hover:text-indigo-600 text-slate-600 rounded-lg font-medium transition-colors flex items-center gap-2"
+                                >
+                                    <FileDown className="w-4 h-4" />
+                                    Export
+                                </button>
+                            </div>
+                        )}
+
                         {appState === AppState.COMPLETED && (
                             <button 
                                 onClick={handleReset}
@@ -263,11 +625,120 @@ const App: React.FC = () => {
                                 Convert New File
                             </button>
                         )}
+                        </div>
                     </div>
                 </div>
 
+                {/* The finished file; nothing is downloaded until the user asks */}
+                {appState === AppState.COMPLETED && exported && (
+                    <div className="flex flex-wrap items-center gap-3 px-4 py-3 bg-white rounded-xl border border-green-200 text-sm text-slate-600">
+                        <span className="flex items-center gap-2 min-w-0 mr-auto">
+                            <FileDown className="w-4 h-4 text-green-600 shrink-0" />
+                            <span className="font-medium text-slate-800 truncate">{exported.fileName}</span>
+                            <span className="text-slate-400 shrink-0">{(exported.blob.size / (1024 * 1024)).toFixed(1)} MB</span>
+                        </span>
+                        <button
+                            onClick={() => downloadBlob(exported.blob, exported.fileName)}
+                            className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
+                        >
+                            <Download className="w-4 h-4" />
+                            Download
+                        </button>
+                        {canSaveFileAs() && (
+                            <button
+                                onClick={handleSaveAs}
+                                className="px-4 py-2 border border-slate-300 hover:border-indigo-300 hover:text-indigo-600 text-slate-600 rounded-lg font-medium transition-colors flex items-center gap-2"
+                                title="Choose the folder and file name"
+                            >
+                                <FolderDown className="w-4 h-4" />
+                                Save As...
+                            </button>
+                        )}
+                        {shareable && (
+                            <button
+                                onClick={handleShare}
+                                className="px-4 py-2 border border-slate-300 hover:border-indigo-300 hover:text-indigo-600 text-slate-600 rounded-lg font-medium transition-colors flex items-center gap-2"
+                            >
+                                <Share2 className="w-4 h-4" />
+                                Share
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {/* Several input files: one merged deck or one deck per file */}
+                {appState === AppState.REVIEWING && sourceFileNames.length > 1 && (
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 px-4 py-3 bg-white rounded-xl border border-slate-200 text-sm text-slate-600">
+                        <span className="flex items-center gap-2 font-medium text-slate-700">
+                            <Files className="w-4 h-4 text-slate-400" />
+                            {sourceFileNames.length} input files
+                        </span>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="radio" name="splitOutput" checked={!splitOutput} onChange={() => setSplitOutput(false)} className="accent-indigo-600" />
+                            Merge into one presentation
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="radio" name="splitOutput" checked={splitOutput} onChange={() => setSplitOutput(true)} className="accent-indigo-600" />
+                            One PowerPoint per file (zip)
+                        </label>
+                    </div>
+                )}
+
+                {(appState === AppState.REVIEWING || appState === AppState.COMPLETED) && slides.length > 0 && (
+                    <NotesSettings strategy={notesStrategy} onChange={setNotesChoice} slides={slides} />
+                )}
+
+                {/* Deck theme, or the company template that replaces it */}
+                {appState === AppState.REVIEWING && (mode === 'AI_EXTRACT' || mode === 'TEXT_LAYER') && activeTemplate && (
+                    <div className="flex items-center gap-2 px-4 py-3 bg-white rounded-xl border border-slate-200 text-sm text-slate-600">
+                        <Palette className="w-4 h-4 text-slate-400" />
+                        Exporting in the <span className="font-medium text-slate-800">{activeTemplate.name}</span> template. Text is placed in its layouts, not at the original positions.
+                    </div>
+                )}
+                {appState === AppState.REVIEWING && (mode === 'AI_EXTRACT' || mode === 'TEXT_LAYER') && !activeTemplate && deckTheme.masters.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 px-4 py-3 bg-white rounded-xl border border-slate-200 text-sm text-slate-600">
+                        <span className="flex items-center gap-2 font-medium text-slate-700">
+                            <Palette className="w-4 h-4 text-slate-400" />
+                            Deck theme
+                        </span>
+                        {deckTheme.masters.map(master => {
+                            const slideCount = deckTheme.slideMasters.filter(n => n === master.name).length;
+                            const shared = master.recurringText.length + master.recurringFigures.length + (master.slideNumber ? 1 : 0);
+                            return (
+                                <span key={master.name} className="flex items-center gap-1.5" title="Slides on a master share its background, text color and repeated elements">
+                                    <span className="w-4 h-4 rounded border border-slate-300 flex items-center justify-center text-[9px] font-bold" style={{ backgroundColor: master.backgroundColor, color: master.textColor }}>A</span>
+                                    {slideCount} slides{shared > 0 && `, ${shared} shared element${shared === 1 ? '' : 's'}`}
+                                </span>
+                            );
+                        })}
+                        {(deckTheme.headingFont || deckTheme.bodyFont) && (
+                            <span className="text-slate-500">
+                                Fonts: {[deckTheme.headingFont, deckTheme.bodyFont].filter(Boolean).join(' / ')}
+                            </span>
+                        )}
+                    </div>
+                )}
+
+                {/* Checked before export, so issues can still be fixed in the editor */}
+                {appState === AppState.REVIEWING && slides.length > 0 && (
+                    <AccessibilityReport issues={accessibilityIssues} onEditSlide={mode !== 'IMAGE_ONLY' ? setEditingIndex : undefined} />
+                )}
+
                 {/* Grid of slides */}
-                <SlidePreview slides={slides} />
+                <SlidePreview
+                    slides={slides}
+                    onEditSlide={appState === AppState.REVIEWING && mode !== 'IMAGE_ONLY' ? setEditingIndex : undefined}
+                    onReanalyzeSlide={appState === AppState.REVIEWING && analyzing ? reanalyzeSlide : undefined}
+                />
+
+                {editingIndex !== null && slides[editingIndex] && (
+                    <SlideEditor
+                        slide={slides[editingIndex]}
+                        index={editingIndex}
+                        onSave={analysis => handleSlideEdited(editingIndex, analysis)}
+                        onClose={() => setEditingIndex(null)}
+                    />
+                )}
             </div>
         )}
       </main>
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+// The installed `slideshifter` command: the same as `npm run slideshifter`, with tsx loaded
+// through its API so no flags are needed on the command line.
+import { register } from 'tsx/esm/api';
+import './register.mjs';
+
+register();
+await import('./slideshifter.ts');
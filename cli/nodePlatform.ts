@@ -0,0 +1,28 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { LoadedImage, Platform } from '../services/platform';
+
+const pdfjsDir = path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json'));
+
+// @napi-rs/canvas implements the subset of the canvas API conversion uses (drawImage,
+// getImageData, toDataURL, ...), and pdf.js already uses it under Node for its own scratch
+// canvases. Pages are kept as data URLs: Node has no loader for blob: URLs.
+export const nodePlatform: Platform = {
+  createCanvas: (width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement,
+
+  loadImage: async src => (await loadImage(src)) as unknown as LoadedImage,
+
+  encodeCanvas: async (canvas, format, quality) => {
+    const dataUrl = canvas.toDataURL(format, quality);
+    canvas.width = 0;
+    canvas.height = 0;
+    return dataUrl;
+  },
+
+  // Under Node pdf.js reads these from disk; without them non-embedded fonts fall back to a generic face
+  pdfDocumentOptions: {
+    standardFontDataUrl: `${path.join(pdfjsDir, 'standard_fonts')}${path.sep}`,
+    cMapUrl: `${path.join(pdfjsDir, 'cmaps')}${path.sep}`,
+  },
+};
@@ -0,0 +1,5 @@
+// Loaded with --import before the CLI. The services import 'pdfjs-dist', whose default build
+// targets browsers; Node needs the legacy build, which polyfills DOMMatrix and friends.
+import { register } from 'node:module';
+
+register('./resolveHooks.mjs', import.meta.url);
@@ -0,0 +1,2 @@
+export const resolve = (specifier, context, nextResolve) =>
+  nextResolve(specifier === 'pdfjs-dist' ? 'pdfjs-dist/legacy/build/pdf.mjs' : specifier, context);
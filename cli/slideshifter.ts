@@ -0,0 +1,322 @@
+import { readdir, readFile, stat, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { AnalyzerConfig, AnalyzerProvider, BrandTemplate, ConversionMode, NotesStrategy, ProcessedSlide, RenderQuality } from '../types';
+import { setPlatform } from '../services/platform';
+import { nodePlatform } from './nodePlatform';
+import { convertPdfToImages, countPdfPages, extractTextLayerSlides } from '../services/pdfUtils';
+import { parsePageRange } from '../services/pageRange';
+import { RENDER_PRESETS, DEFAULT_RENDER_QUALITY } from '../services/renderQuality';
+import { createAnalyzer, PROVIDER_DEFAULTS } from '../services/analyzers';
+import { createJobQueue, retryWithBackoff } from '../services/analysisQueue';
+import { prepareModelImage } from '../services/pageImages';
+import { loadBrandTemplateFile } from '../services/brandTemplate';
+import { buildPptx } from '../services/exporters';
+import { DEFAULT_NOTES_STRATEGY } from '../services/speakerNotes';
+import { modeWarnings } from '../services/slideValidation';
+
+// Exit codes, so scripts can tell a clean run from a partial one
+const EXIT_OK = 0;
+const EXIT_SLIDES_FAILED = 1; // Decks were written, but some slides fell back to page images
+const EXIT_USAGE = 2;
+const EXIT_FILES_FAILED = 3; // At least one input could not be converted at all
+
+const USAGE = `Usage: slideshifter convert <input.pdf | folder>... [options]
+
+Converts PDFs to PowerPoint. Folders are searched (not recursively) for PDFs.
+Progress goes to stderr; a JSON summary with the status of every slide goes to stdout.
+
+Options:
+  --mode <mode>          image | ai | hybrid | text (default: image)
+  --out <file.pptx>      Output file; only with a single input
+  --out-dir <folder>     Folder for the output files (default: next to each input)
+  --pages <range>        Pages to convert, e.g. "1-5,9" (default: all)
+  --quality <preset>     draft | standard | print (default: standard)
+  --provider <name>      gemini | openai | mock, for ai and hybrid modes (default: gemini)
+  --describe             In image mode, have the provider describe each page for alt text
+  --model <name>         Model name for the provider
+  --endpoint <url>       Base URL of an OpenAI-compatible server
+  --concurrency <n>      Parallel analysis requests (default: 3)
+  --template <file>      Company template JSON, for ai and text modes
+  --notes <source>       original | ai | description | none: what goes into speaker notes
+                         (default: original when the PDF has notes, otherwise ai)
+  -h, --help             Show this help
+
+Gemini reads its API key from GEMINI_API_KEY, OpenAI-compatible servers from OPENAI_API_KEY.
+
+Exit codes: 0 success, 1 some slides failed analysis, 2 usage error, 3 some files failed.`;
+
+const MODES: Record<string, ConversionMode> = {
+  image: 'IMAGE_ONLY',
+  ai: 'AI_EXTRACT',
+  hybrid: 'HYBRID',
+  text: 'TEXT_LAYER',
+};
+
+const PROVIDERS: Record<string, AnalyzerProvider> = {
+  gemini: 'GEMINI',
+  openai: 'OPENAI_COMPATIBLE',
+  mock: 'MOCK',
+};
+
+const NOTES: Record<string, NotesStrategy> = {
+  original: 'ORIGINAL',
+  ai: 'AI_SUMMARY',
+  description: 'DESCRIPTION',
+  none: 'NONE',
+};
+
+class UsageError extends Error {}
+
+interface ConvertSettings {
+  mode: ConversionMode;
+  quality: RenderQuality;
+  pages?: string;
+  analyzer?: AnalyzerConfig;
+  concurrency: number;
+  template?: BrandTemplate;
+  notes?: NotesStrategy;
+  describe: boolean;
+}
+
+interface SlideSummary {
+  index: number;
+  pageNumber?: number;
+  status: ProcessedSlide['status'];
+  warnings?: string[];
+  error?: string;
+}
+
+interface FileSummary {
+  input: string;
+  output?: string;
+  status: 'done' | 'failed';
+  error?: string;
+  slides: SlideSummary[];
+}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const pickOne = <T>(table: Record<string, T>, value: string | undefined, option: string, fallback: T): T => {
+  if (value === undefined) return fallback;
+  const picked = table[value.toLowerCase()];
+  if (picked === undefined) {
+    throw new UsageError(`--${option} must be one of ${Object.keys(table).join(', ')}.`);
+  }
+  return picked;
+};
+
+// Expands folders into the PDFs they contain, sorted by name
+const collectInputs = async (paths: string[]): Promise<string[]> => {
+  const inputs: string[] = [];
+  for (const input of paths) {
+    const info = await stat(input).catch(() => null);
+    if (!info) {
+      throw new UsageError(`${input} does not exist.`);
+    }
+    if (info.isDirectory()) {
+      const pdfs = (await readdir(input)).filter(name => name.toLowerCase().endsWith('.pdf')).sort();
+      inputs.push(...pdfs.map(name => path.join(input, name)));
+    } else {
+      inputs.push(input);
+    }
+  }
+  return inputs;
+};
+
+const analyzePages = async (slides: ProcessedSlide[], settings: ConvertSettings) => {
+  const analyzer = createAnalyzer(settings.analyzer!);
+  const modelWidth = RENDER_PRESETS[settings.quality].modelWidth;
+  const errors = new Map<number, string>();
+
+  const queue = createJobQueue<number>({
+    concurrency: settings.concurrency,
+    run: async index => {
+      try {
+        const image = await prepareModelImage(slides[index].originalImage, modelWidth);
+        const result = await retryWithBackoff(() => analyzer.analyzeSlideImage(image));
+        slides[index] = { ...slides[index], analysis: result.analysis, warnings: [...result.warnings, ...modeWarnings(result.analysis, settings.mode)], status: 'done' };
+        log(`  slide ${index + 1}/${slides.length} analyzed`);
+      } catch (err) {
+        slides[index] = { ...slides[index], status: 'error' };
+        errors.set(index, err instanceof Error ? err.message : String(err));
+        log(`  slide ${index + 1}/${slides.length} failed: ${errors.get(index)}`);
+      }
+    },
+  });
+  slides.forEach((_, index) => queue.push(index));
+  queue.close();
+  await queue.done;
+  return errors;
+};
+
+const convertFile = async (input: string, output: string, settings: ConvertSettings): Promise<FileSummary> => {
+  const file = new File([await readFile(input)], path.basename(input), { type: 'application/pdf' });
+  let pageNumbers: number[] | undefined;
+  if (settings.pages) {
+    const pageCount = await countPdfPages(file);
+    try {
+      pageNumbers = parsePageRange(settings.pages, pageCount);
+    } catch (err) {
+      throw new UsageError(`--pages: ${(err as Error).message}`);
+    }
+  }
+  const preset = RENDER_PRESETS[settings.quality];
+
+  let slides: ProcessedSlide[];
+  let errors = new Map<number, string>();
+  if (settings.mode === 'TEXT_LAYER') {
+    slides = await extractTextLayerSlides(file, pageNumbers, preset);
+  } else {
+    const pages = await convertPdfToImages(file, { pageNumbers, preset });
+    const analyzed = settings.mode === 'AI_EXTRACT' || settings.mode === 'HYBRID' || settings.describe;
+    slides = pages.map((page, i) => ({
+      originalImage: page.image,
+      pageSize: page.pageSize,
+      ...(page.notes ? { sourceNotes: page.notes } : {}),
+      analysis: null,
+      status: analyzed ? 'pending' : 'done',
+      pageNumber: pageNumbers ? pageNumbers[i] : i + 1,
+    }));
+    log(`  ${slides.length} page${slides.length === 1 ? '' : 's'} rendered`);
+    if (analyzed) errors = await analyzePages(slides, settings);
+  }
+
+  // Slides without analysis are exported as page images, the same as in the browser.
+  // Like the browser, prefer the PDF's own notes when it has any.
+  const notes = settings.notes ?? (slides.some(s => s.sourceNotes) ? 'ORIGINAL' : DEFAULT_NOTES_STRATEGY);
+  const blob = await buildPptx(slides, settings.mode, { template: settings.template, notes }, preset);
+  await mkdir(path.dirname(output), { recursive: true });
+  await writeFile(output, Buffer.from(await blob.arrayBuffer()));
+
+  return {
+    input,
+    output,
+    status: 'done',
+    slides: slides.map((slide, index) => ({
+      index: index + 1,
+      pageNumber: slide.pageNumber,
+      status: slide.status,
+      ...(slide.warnings?.length ? { warnings: slide.warnings } : {}),
+      ...(errors.has(index) ? { error: errors.get(index) } : {}),
+    })),
+  };
+};
+
+const run = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      mode: { type: 'string' },
+      out: { type: 'string' },
+      'out-dir': { type: 'string' },
+      pages: { type: 'string' },
+      quality: { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      endpoint: { type: 'string' },
+      concurrency: { type: 'string' },
+      template: { type: 'string' },
+      notes: { type: 'string' },
+      describe: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, ...paths] = positionals;
+  if (values.help || !command) {
+    log(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+  if (command !== 'convert') {
+    throw new UsageError(`Unknown command "${command}".`);
+  }
+  if (paths.length === 0) {
+    throw new UsageError('No input files given.');
+  }
+
+  const mode = pickOne(MODES, values.mode, 'mode', 'IMAGE_ONLY');
+  const quality = pickOne<RenderQuality>({ draft: 'DRAFT', standard: 'STANDARD', print: 'PRINT' }, values.quality, 'quality', DEFAULT_RENDER_QUALITY);
+  const provider = pickOne(PROVIDERS, values.provider, 'provider', 'GEMINI');
+  const notes = values.notes === undefined ? undefined : pickOne(NOTES, values.notes, 'notes', DEFAULT_NOTES_STRATEGY);
+  const concurrency = values.concurrency ? Number(values.concurrency) : 3;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError('--concurrency must be a positive whole number.');
+  }
+
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const analyzer: AnalyzerConfig = {
+    ...defaults,
+    ...(values.model ? { model: values.model } : {}),
+    ...(values.endpoint ? { endpoint: values.endpoint } : {}),
+    ...(provider === 'OPENAI_COMPATIBLE' && process.env.OPENAI_API_KEY ? { apiKey: process.env.OPENAI_API_KEY } : {}),
+  };
+  if (values.describe && mode !== 'IMAGE_ONLY') {
+    throw new UsageError('--describe only applies to image mode; ai and hybrid modes describe figures already.');
+  }
+  const describe = values.describe ?? false;
+  if (provider === 'GEMINI' && (mode === 'AI_EXTRACT' || mode === 'HYBRID' || describe) && !process.env.API_KEY) {
+    throw new UsageError('Set GEMINI_API_KEY to use Gemini, or pick another --provider.');
+  }
+
+  let template: BrandTemplate | undefined;
+  if (values.template) {
+    const raw = await readFile(values.template);
+    template = await loadBrandTemplateFile(new File([raw], path.basename(values.template), { type: 'application/json' }));
+  }
+
+  const inputs = await collectInputs(paths);
+  if (inputs.length === 0) {
+    throw new UsageError('No PDFs found in the given folders.');
+  }
+  if (values.out && inputs.length > 1) {
+    throw new UsageError('--out works with a single input; use --out-dir for several.');
+  }
+
+  const settings: ConvertSettings = { mode, quality, pages: values.pages, analyzer, concurrency, template, notes, describe };
+  const files: FileSummary[] = [];
+
+  for (const input of inputs) {
+    const name = `${path.basename(input, path.extname(input))}.pptx`;
+    const output = values.out ?? path.join(values['out-dir'] ?? path.dirname(input), name);
+    log(`${input} -> ${output}`);
+    try {
+      files.push(await convertFile(input, output, settings));
+    } catch (err) {
+      // A bad page range is the caller's mistake, not a failed conversion
+      if (err instanceof UsageError) throw err;
+      const message = err instanceof Error ? err.message : String(err);
+      log(`  failed: ${message}`);
+      files.push({ input, status: 'failed', error: message, slides: [] });
+    }
+  }
+
+  const filesFailed = files.some(f => f.status === 'failed');
+  const slidesFailed = files.some(f => f.slides.some(s => s.status !== 'done'));
+  process.stdout.write(`${JSON.stringify({ mode, quality, files }, null, 2)}\n`);
+
+  if (filesFailed) return EXIT_FILES_FAILED;
+  if (slidesFailed) return EXIT_SLIDES_FAILED;
+  return EXIT_OK;
+};
+
+// The services read the Gemini key the way the Vite build injects it
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+  process.env.API_KEY = process.env.GEMINI_API_KEY;
+}
+setPlatform(nodePlatform);
+
+run(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(err => {
+    if (err instanceof UsageError || (err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      log(`${err.message}\n\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+      return;
+    }
+    log(err instanceof Error ? err.stack ?? err.message : String(err));
+    process.exitCode = EXIT_FILES_FAILED;
+  });
@@ -0,0 +1,54 @@
+import React from 'react';
+import { AccessibilityIssue, AccessibilityIssueKind } from '../types';
+import { Accessibility, Pencil } from 'lucide-react';
+
+interface AccessibilityReportProps {
+  issues: AccessibilityIssue[];
+  onEditSlide?: (index: number) => void; // Only offered where the slide editor can fix the issue
+}
+
+const ISSUE_LABELS: Record<AccessibilityIssueKind, string> = {
+  MISSING_TITLE: 'Missing title',
+  LOW_CONTRAST: 'Low contrast',
+  UNDESCRIBED_IMAGE: 'No alt text',
+};
+
+const AccessibilityReport: React.FC<AccessibilityReportProps> = ({ issues, onEditSlide }) => {
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 px-4 py-3 bg-white rounded-xl border border-slate-200 text-sm text-slate-600">
+        <Accessibility className="w-4 h-4 text-green-600" />
+        No accessibility issues found: every slide has a title, readable text and described pictures.
+      </div>
+    );
+  }
+
+  return (
+    <details className="bg-white border border-amber-200 rounded-xl text-sm text-slate-600">
+      <summary className="flex items-center gap-2 px-4 py-3 cursor-pointer font-medium text-slate-700">
+        <Accessibility className="w-4 h-4 text-amber-600" />
+        {issues.length} accessibility issue{issues.length === 1 ? '' : 's'} on {new Set(issues.map(i => i.slideIndex)).size} slide(s)
+      </summary>
+      <ul className="border-t border-slate-100 divide-y divide-slate-100">
+        {issues.map((issue, i) => (
+          <li key={i} className="flex items-center gap-3 px-4 py-2">
+            <span className="shrink-0 w-16 text-slate-400">Slide {issue.slideIndex + 1}</span>
+            <span className="shrink-0 w-28 font-medium text-amber-700">{ISSUE_LABELS[issue.kind]}</span>
+            <span className="flex-1">{issue.message}</span>
+            {onEditSlide && (
+              <button
+                onClick={() => onEditSlide(issue.slideIndex)}
+                className="shrink-0 flex items-center gap-1 text-indigo-600 hover:text-indigo-800"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+                Edit
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default AccessibilityReport;
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { AnalyzerConfig, AnalyzerProvider } from '../types';
+import { PROVIDER_DEFAULTS } from '../services/analyzers';
+import { clearAnalysisCache, countCachedAnalyses } from '../services/analysisCache';
+import { Settings2, Trash2 } from 'lucide-react';
+
+interface AnalyzerSettingsProps {
+  config: AnalyzerConfig;
+  onChange: (config: AnalyzerConfig) => void;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+}
+
+const PROVIDER_LABELS: Record<AnalyzerProvider, string> = {
+  GEMINI: 'Google Gemini',
+  OPENAI_COMPATIBLE: 'OpenAI-compatible server',
+  MOCK: 'Mock (offline fixtures)',
+};
+
+const AnalyzerSettings: React.FC<AnalyzerSettingsProps> = ({ config, onChange, concurrency, onConcurrencyChange }) => {
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    countCachedAnalyses().then(setCachedCount);
+  }, []);
+
+  const handleClearCache = async () => {
+    try {
+      await clearAnalysisCache();
+    } catch (err) {
+      console.error("Failed to clear analysis cache", err);
+    }
+    setCachedCount(await countCachedAnalyses());
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <Settings2 className="w-4 h-4 text-slate-400" />
+          Analysis model
+        </div>
+        <button
+          onClick={handleClearCache}
+          disabled={!cachedCount}
+          className="text-xs text-slate-500 hover:text-red-600 disabled:opacity-50 disabled:hover:text-slate-500 flex items-center gap-1 transition-colors"
+          title="Cached analyses let unchanged pages skip the model on re-conversion"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+          Clear cache{cachedCount ? ` (${cachedCount} page${cachedCount === 1 ? '' : 's'})` : ''}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm text-slate-600">
+        <label className="space-y-1">
+          <span>Provider</span>
+          <select
+            className={inputClass}
+            value={config.provider}
+            onChange={e => onChange(PROVIDER_DEFAULTS[e.target.value as AnalyzerProvider])}
+          >
+            {(Object.keys(PROVIDER_LABELS) as AnalyzerProvider[]).map(provider => (
+              <option key={provider} value={provider}>{PROVIDER_LABELS[provider]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span>Model</span>
+          <input
+            className={inputClass}
+            value={config.model}
+            disabled={config.provider === 'MOCK'}
+            onChange={e => onChange({ ...config, model: e.target.value })}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Parallel requests</span>
+          <select
+            className={inputClass}
+            value={concurrency}
+            onChange={e => onConcurrencyChange(Number(e.target.value))}
+          >
+            {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        {config.provider === 'OPENAI_COMPATIBLE' && (
+          <>
+            <label className="space-y-1 md:col-span-2">
+              <span>Endpoint</span>
+              <input
+                className={inputClass}
+                value={config.endpoint ?? ''}
+                placeholder="http://localhost:11434/v1"
+                onChange={e => onChange({ ...config, endpoint: e.target.value })}
+              />
+            </label>
+            <label className="space-y-1">
+              <span>API key (optional)</span>
+              <input
+                type="password"
+                className={inputClass}
+                value={config.apiKey ?? ''}
+                onChange={e => onChange({ ...config, apiKey: e.target.value || undefined })}
+              />
+            </label>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalyzerSettings;
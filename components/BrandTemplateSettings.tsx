@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { BrandTemplate } from '../types';
+import { clearSavedBrandTemplate, downloadExampleTemplate, loadBrandTemplateFile, saveBrandTemplate } from '../services/brandTemplate';
+import { Briefcase, Upload, Trash2 } from 'lucide-react';
+
+interface BrandTemplateSettingsProps {
+  template: BrandTemplate | null;
+  onChange: (template: BrandTemplate | null) => void;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+}
+
+const BrandTemplateSettings: React.FC<BrandTemplateSettingsProps> = ({ template, onChange, enabled, onEnabledChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const loaded = await loadBrandTemplateFile(file);
+      setError(null);
+      onChange(loaded);
+      onEnabledChange(true);
+      // Still usable for this session even if it can't be stored
+      saveBrandTemplate(loaded);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the template.');
+    }
+  };
+
+  const handleRemove = () => {
+    clearSavedBrandTemplate();
+    onChange(null);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium text-slate-700">
+          <Briefcase className="w-4 h-4 text-slate-400" />
+          Company template
+        </div>
+        <button onClick={downloadExampleTemplate} className="text-xs text-slate-500 hover:text-indigo-600 transition-colors">
+          Download example
+        </button>
+      </div>
+
+      {template ? (
+        <div className="flex flex-wrap items-center gap-3 text-slate-600">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={enabled} onChange={e => onEnabledChange(e.target.checked)} className="accent-indigo-600" />
+            Apply <span className="font-medium text-slate-800">{template.name}</span>
+          </label>
+          <span className="flex items-center gap-1">
+            {[template.palette.background, template.palette.title, template.palette.text, template.palette.accent]
+              .filter((c): c is string => Boolean(c))
+              .map((color, i) => (
+                <span key={i} className="w-4 h-4 rounded border border-slate-300" style={{ backgroundColor: color }} />
+              ))}
+          </span>
+          <span className="text-slate-500">{template.fonts.heading} / {template.fonts.body}</span>
+          <button
+            onClick={handleRemove}
+            className="ml-auto text-xs text-slate-500 hover:text-red-600 flex items-center gap-1 transition-colors"
+          >
+            <Trash2 className="w-3.5 h-3.5" /> Remove
+          </button>
+        </div>
+      ) : (
+        <p className="text-slate-500">
+          Upload a brand spec (JSON with fonts, palette, logo and placeholder positions) to export in your company's layouts.
+        </p>
+      )}
+
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="px-3 py-1.5 border border-slate-300 hover:border-indigo-300 hover:text-indigo-600 text-slate-600 rounded-lg font-medium transition-colors flex items-center gap-2"
+      >
+        <Upload className="w-4 h-4" />
+        {template ? 'Replace template' : 'Upload template'}
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default BrandTemplateSettings;
@@ -1,12 +1,16 @@
 import React, { useRef, useState } from 'react';
 import { Upload, FileType, AlertCircle } from 'lucide-react';
+import { isProjectFile } from '../services/projectFile';
+import { IMAGE_EXTENSIONS, IMAGE_TYPES, isImageFile, isPdfFile } from '../services/inputFiles';
 
 interface DropzoneProps {
-  onFileAccepted: (file: File) => void;
+  onFilesAccepted: (files: File[]) => void; // PDFs and slide images, in the order given
+
+  onProjectAccepted?: (file: File) => void; // Saved SlideShifter project (.slideshifter.json)
   isProcessing: boolean;
 }
 
-const Dropzone: React.FC<DropzoneProps> = ({ onFileAccepted, isProcessing }) => {
+const Dropzone: React.FC<DropzoneProps> = ({ onFilesAccepted, onProjectAccepted, isProcessing }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -27,28 +31,46 @@ const Dropzone: React.FC<DropzoneProps> = ({ onFileAccepted, isProcessing }) =>
     if (isProcessing) return;
 
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      validateAndProcess(e.dataTransfer.files[0]);
+      validateAndProcess(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      validateAndProcess(e.target.files[0]);
+      validateAndProcess(Array.from(e.target.files));
     }
+    e.target.value = '';
   };
 
-  const validateAndProcess = (file: File) => {
+  const validateAndProcess = async (files: File[]) => {
     setError(null);
-    if (file.type !== 'application/pdf') {
-      setError('Please upload a valid PDF file.');
+    // A project is a whole session, so it can't be combined with other inputs.
+    const projectFlags = onProjectAccepted ? await Promise.all(files.map(isProjectFile)) : [];
+    const project = files.find((_, i) => projectFlags[i]);
+    if (project) {
+      if (files.length > 1) {
+        setError('Open a saved project on its own, not together with other files.');
+        return;
+      }
+      onProjectAccepted!(project);
       return;
     }
-    // Limit size if necessary (e.g. 20MB)
-    if (file.size > 20 * 1024 * 1024) {
-       setError('File size exceeds 20MB limit.');
-       return;
+
+    const rejected: string[] = [];
+    const accepted = files.filter(file => {
+      if (!isPdfFile(file) && !isImageFile(file)) {
+        rejected.push(`${file.name} is not a PDF or PNG/JPEG/WebP image`);
+        return false;
+      }
+      return true;
+    });
+
+    if (rejected.length > 0) {
+      setError(`Skipped: ${rejected.join('; ')}.`);
+    }
+    if (accepted.length > 0) {
+      onFilesAccepted(accepted);
     }
-    onFileAccepted(file);
   };
 
   return (
@@ -66,7 +88,8 @@ const Dropzone: React.FC<DropzoneProps> = ({ onFileAccepted, isProcessing }) =>
         type="file" 
         ref={fileInputRef} 
         onChange={handleFileInput} 
-        accept=".pdf" 
+        accept={['.pdf', 'application/pdf', ...IMAGE_TYPES, ...IMAGE_EXTENSIONS, ...(onProjectAccepted ? ['.json'] : [])].join(',')} 
+        multiple
         className="hidden" 
         disabled={isProcessing}
       />
@@ -77,10 +100,11 @@ const Dropzone: React.FC<DropzoneProps> = ({ onFileAccepted, isProcessing }) =>
         </div>
         <div className="space-y-1">
           <p className="text-lg font-medium text-slate-700">
-            {isDragging ? 'Drop PDF here' : 'Click or drag PDF here'}
+            {isDragging ? 'Drop files here' : 'Click or drag PDFs or slide images here'}
           </p>
           <p className="text-sm text-slate-500">
-            Supports PDF files up to 20MB
+            Supports PDF, PNG, JPEG and WebP files of any size; several files can be combined
+            {onProjectAccepted && ', or a saved SlideShifter project'}
           </p>
         </div>
       </div>
@@ -0,0 +1,33 @@
+import React from 'react';
+import { UnavailableFeature } from '../services/networkStatus';
+import { WifiOff } from 'lucide-react';
+
+interface NetworkNoticeProps {
+  online: boolean;
+  features: UnavailableFeature[];
+}
+
+const NetworkNotice: React.FC<NetworkNoticeProps> = ({ online, features }) => {
+  if (features.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-800 space-y-2">
+      <div className="flex items-center gap-2 font-medium">
+        <WifiOff className="w-4 h-4" />
+        {online ? 'Some features are unavailable' : 'Working offline'}
+      </div>
+      <ul className="list-disc pl-5 space-y-0.5">
+        {features.map(feature => (
+          <li key={feature.name}>
+            <span className="font-medium">{feature.name}</span>: {feature.reason}.
+          </li>
+        ))}
+      </ul>
+      <p className="text-amber-700">
+        Image Copy and Native Text modes, the mock analyzer and local OpenAI-compatible servers work without internet access.
+      </p>
+    </div>
+  );
+};
+
+export default NetworkNotice;
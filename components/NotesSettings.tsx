@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import { NotesStrategy, ProcessedSlide } from '../types';
+import { resolveSpeakerNotes } from '../services/speakerNotes';
+import { StickyNote } from 'lucide-react';
+
+interface NotesSettingsProps {
+  strategy: NotesStrategy;
+  onChange: (strategy: NotesStrategy) => void;
+  slides: ProcessedSlide[];
+}
+
+const NOTES_LABELS: Record<NotesStrategy, { name: string; description: string }> = {
+  ORIGINAL: { name: 'Original notes', description: 'Comments and notes pages found in the PDF.' },
+  AI_SUMMARY: { name: 'AI summary', description: "The analyzer's short summary of each slide." },
+  DESCRIPTION: { name: 'Full description', description: 'Title, text and figures written out, like alt text.' },
+  NONE: { name: 'None', description: 'Leave the speaker notes empty.' },
+};
+
+const NotesSettings: React.FC<NotesSettingsProps> = ({ strategy, onChange, slides }) => {
+  // How many slides each choice would actually give notes to
+  const coverage = useMemo(() => {
+    const counts = {} as Record<NotesStrategy, number>;
+    for (const option of Object.keys(NOTES_LABELS) as NotesStrategy[]) {
+      counts[option] = slides.filter(slide => resolveSpeakerNotes(slide, option)).length;
+    }
+    return counts;
+  }, [slides]);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+        <StickyNote className="w-4 h-4 text-slate-400" />
+        Speaker notes
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+        {(Object.keys(NOTES_LABELS) as NotesStrategy[]).map(option => (
+          <label
+            key={option}
+            className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+              strategy === option ? 'border-indigo-600 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300'
+            }`}
+          >
+            <input type="radio" name="notesStrategy" checked={strategy === option} onChange={() => onChange(option)} className="sr-only" />
+            <span className="font-medium text-slate-800">{NOTES_LABELS[option].name}</span>
+            <span className="block text-slate-500 mt-0.5">{NOTES_LABELS[option].description}</span>
+            {option !== 'NONE' && (
+              <span className="block text-xs text-slate-400 mt-1">
+                {coverage[option]} of {slides.length} slides
+              </span>
+            )}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NotesSettings;
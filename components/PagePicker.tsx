@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { parsePageRange, formatPageRange } from '../services/pageRange';
+import { GripVertical, X, Plus, ArrowRight } from 'lucide-react';
+
+interface PagePickerProps {
+  fileName: string;
+  thumbnails: string[]; // One per PDF page, index = page number - 1
+  pageLabels?: string[]; // Shown instead of "Page N", e.g. when pages come from several files
+  onConfirm: (pageNumbers: number[]) => void;
+  onCancel: () => void;
+}
+
+const PagePicker: React.FC<PagePickerProps> = ({ fileName, thumbnails, pageLabels, onConfirm, onCancel }) => {
+  const pageCount = thumbnails.length;
+  const labelOf = (page: number) => pageLabels?.[page - 1] ?? `Page ${page}`;
+  const [selection, setSelection] = useState<number[]>(() => parsePageRange('', pageCount));
+  const [rangeText, setRangeText] = useState('');
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const excluded = thumbnails.map((_, i) => i + 1).filter(page => !selection.includes(page));
+
+  const updateSelection = (pages: number[]) => {
+    setSelection(pages);
+    setRangeText(pages.length === pageCount && pages.every((p, i) => p === i + 1) ? '' : formatPageRange(pages));
+    setRangeError(null);
+  };
+
+  const applyRange = () => {
+    try {
+      setSelection(parsePageRange(rangeText, pageCount));
+      setRangeError(null);
+    } catch (err) {
+      setRangeError(err instanceof Error ? err.message : 'Invalid page range.');
+    }
+  };
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex) return;
+    const reordered = [...selection];
+    const [moved] = reordered.splice(dragIndex, 1);
+    reordered.splice(targetIndex, 0, moved);
+    updateSelection(reordered);
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 sticky top-20 z-10 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h3 className="font-semibold text-slate-900 text-lg">Choose pages</h3>
+            <p className="text-sm text-slate-500">
+              {fileName} - {selection.length} of {pageCount} pages selected. Drag to reorder, click X to exclude.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={onCancel} className="px-4 py-2 text-slate-600 hover:text-slate-900 font-medium transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(selection)}
+              disabled={selection.length === 0}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors shadow-sm shadow-indigo-200 flex items-center gap-2"
+            >
+              Convert {selection.length} page{selection.length === 1 ? '' : 's'}
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder={`Pages, e.g. 1-5,9,20- (all ${pageCount} pages if empty)`}
+            value={rangeText}
+            onChange={e => setRangeText(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && applyRange()}
+          />
+          <button
+            onClick={applyRange}
+            className="px-4 py-2 border border-slate-300 hover:border-indigo-300 hover:text-indigo-600 text-slate-600 rounded-lg text-sm font-medium transition-colors"
+          >
+            Apply
+          </button>
+        </div>
+        {rangeError && <p className="text-sm text-red-600">{rangeError}</p>}
+      </div>
+
+      {/* Selected pages, in output order */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-4">
+        {selection.map((page, index) => (
+          <div
+            key={page}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={e => e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => setDragIndex(null)}
+            className={`bg-white rounded-lg border shadow-sm overflow-hidden cursor-grab active:cursor-grabbing transition-opacity
+              ${dragIndex === index ? 'opacity-40 border-indigo-400' : 'border-slate-200'}`}
+          >
+            <div className="px-2 py-1 flex items-center justify-between text-xs text-slate-600 bg-slate-50 border-b border-slate-100">
+              <span className="flex items-center gap-1 min-w-0">
+                <GripVertical className="w-3 h-3 text-slate-400" />
+                <span className="truncate">{index + 1}. {labelOf(page)}</span>
+              </span>
+              <button
+                onClick={() => updateSelection(selection.filter(p => p !== page))}
+                className="text-slate-400 hover:text-red-500"
+                aria-label={`Exclude ${labelOf(page)}`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <img src={thumbnails[page - 1]} alt={labelOf(page)} className="w-full h-auto block" draggable={false} />
+          </div>
+        ))}
+      </div>
+
+      {/* Excluded pages */}
+      {excluded.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-slate-500">Excluded pages</h4>
+          <div className="grid grid-cols-3 sm:grid-cols-6 lg:grid-cols-10 gap-3">
+            {excluded.map(page => (
+              <button
+                key={page}
+                onClick={() => updateSelection([...selection, page])}
+                className="relative bg-white rounded-lg border border-dashed border-slate-300 overflow-hidden opacity-60 hover:opacity-100 transition-opacity"
+                title={`Add ${labelOf(page)} back`}
+              >
+                <img src={thumbnails[page - 1]} alt={labelOf(page)} className="w-full h-auto block grayscale" />
+                <span className="absolute bottom-0 inset-x-0 bg-white/90 text-[10px] text-slate-600 flex items-center justify-center gap-0.5 py-0.5">
+                  <Plus className="w-3 h-3 shrink-0" /> <span className="truncate">{labelOf(page)}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PagePicker;
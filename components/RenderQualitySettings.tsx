@@ -0,0 +1,50 @@
+import React from 'react';
+import { RenderQuality } from '../types';
+import { RENDER_PRESETS } from '../services/renderQuality';
+import { Gauge } from 'lucide-react';
+
+interface RenderQualitySettingsProps {
+  quality: RenderQuality;
+  onChange: (quality: RenderQuality) => void;
+  showModelWidth: boolean; // Only analyzer modes send pages to a model
+}
+
+const QUALITY_LABELS: Record<RenderQuality, { name: string; description: string }> = {
+  DRAFT: { name: 'Draft', description: 'Fastest, smallest files. Good for very large decks.' },
+  STANDARD: { name: 'Standard', description: 'Sharp on screen and projectors.' },
+  PRINT: { name: 'Print', description: 'Lossless, high resolution. Large files, more memory.' },
+};
+
+const RenderQualitySettings: React.FC<RenderQualitySettingsProps> = ({ quality, onChange, showModelWidth }) => {
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+        <Gauge className="w-4 h-4 text-slate-400" />
+        Page quality
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        {(Object.keys(QUALITY_LABELS) as RenderQuality[]).map(option => {
+          const preset = RENDER_PRESETS[option];
+          return (
+            <label
+              key={option}
+              className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                quality === option ? 'border-indigo-600 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300'
+              }`}
+            >
+              <input type="radio" name="renderQuality" checked={quality === option} onChange={() => onChange(option)} className="sr-only" />
+              <span className="font-medium text-slate-800">{QUALITY_LABELS[option].name}</span>
+              <span className="block text-slate-500 mt-0.5">{QUALITY_LABELS[option].description}</span>
+              <span className="block text-xs text-slate-400 mt-1">
+                {Math.round(preset.scale * 72)} dpi {preset.format === 'image/png' ? 'PNG' : 'JPEG'}
+                {showModelWidth && `, model sees ${preset.modelWidth}px`}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RenderQualitySettings;
@@ -0,0 +1,347 @@
+import React, { useRef, useState } from 'react';
+import { ProcessedSlide, SlideContent, SlideParagraph } from '../types';
+import { editParagraphs, MAX_PARAGRAPH_LEVEL, OwnedParagraph, paragraphText, slideParagraphs, withTitle } from '../services/richText';
+import { X, Plus, Trash2, Save, ListIndentIncrease, ListIndentDecrease } from 'lucide-react';
+
+interface SlideEditorProps {
+  slide: ProcessedSlide;
+  index: number;
+  onSave: (analysis: SlideContent) => void;
+  onClose: () => void;
+}
+
+type Box = [number, number, number, number]; // ymin, xmin, ymax, xmax (0-100 scale)
+type BoxKind = 'figure' | 'text';
+
+interface DragState {
+  kind: BoxKind;
+  index: number;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  startBox: Box;
+}
+
+const LAYOUT_TYPES: SlideContent['layoutType'][] = ['TITLE_ONLY', 'TITLE_AND_CONTENT', 'TWO_COLUMN', 'BLANK', 'SECTION_HEADER'];
+
+const EMPTY_CONTENT: SlideContent = {
+  title: '',
+  content: [],
+  layoutType: 'TITLE_AND_CONTENT',
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isFormatted = (paragraph: SlideParagraph) =>
+  paragraph.runs.length > 1 || paragraph.runs.some(run => run.bold || run.italic || run.url);
+
+// Retyped text keeps the formatting only when the paragraph had a single run
+const retype = (paragraph: SlideParagraph, text: string): SlideParagraph => ({
+  ...paragraph,
+  runs: [paragraph.runs.length === 1 ? { ...paragraph.runs[0], text } : { text }],
+});
+
+// Moves or resizes a box by a delta in percent, keeping it on the slide and at least 1% in size.
+const applyDrag = (box: Box, mode: DragState['mode'], dx: number, dy: number): Box => {
+  const [ymin, xmin, ymax, xmax] = box;
+  if (mode === 'move') {
+    const moveX = clamp(dx, -xmin, 100 - xmax);
+    const moveY = clamp(dy, -ymin, 100 - ymax);
+    return [ymin + moveY, xmin + moveX, ymax + moveY, xmax + moveX];
+  }
+  return [ymin, xmin, clamp(ymax + dy, ymin + 1, 100), clamp(xmax + dx, xmin + 1, 100)];
+};
+
+const SlideEditor: React.FC<SlideEditorProps> = ({ slide, index, onSave, onClose }) => {
+  const [draft, setDraft] = useState<SlideContent>(() => structuredClone(slide.analysis ?? EMPTY_CONTENT));
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+
+  const update = (patch: Partial<SlideContent>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  // Content is edited as paragraphs so list levels and formatting survive the edit.
+  // Title and content edits also go into the positioned blocks showing them, which is what gets exported.
+  const paragraphs = slideParagraphs(draft);
+  const editContent = (edit: (owned: OwnedParagraph[]) => OwnedParagraph[]) => setDraft(prev => editParagraphs(prev, edit));
+  const updateParagraph = (i: number, change: (paragraph: SlideParagraph) => SlideParagraph) =>
+    editContent(owned => owned.map((o, oi) => oi === i ? { ...o, paragraph: change(o.paragraph) } : o));
+  // New items join the block of the item before them
+  const addParagraph = () =>
+    editContent(owned => [...owned, { paragraph: { runs: [{ text: '' }] }, block: owned[owned.length - 1]?.block }]);
+
+  const getBox = (kind: BoxKind, i: number): Box =>
+    kind === 'figure' ? draft.figures![i].boundingBox : draft.textBlocks![i].boundingBox;
+
+  const setBox = (kind: BoxKind, i: number, box: Box) => {
+    setDraft(prev => kind === 'figure'
+      ? { ...prev, figures: prev.figures!.map((f, fi) => fi === i ? { ...f, boundingBox: box } : f) }
+      : { ...prev, textBlocks: prev.textBlocks!.map((b, bi) => bi === i ? { ...b, boundingBox: box } : b) });
+  };
+
+  const startDrag = (e: React.PointerEvent, kind: BoxKind, i: number, mode: DragState['mode']) => {
+    e.preventDefault();
+    e.stopPropagation();
+    canvasRef.current?.setPointerCapture(e.pointerId);
+    setDrag({ kind, index: i, mode, startX: e.clientX, startY: e.clientY, startBox: getBox(kind, i) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag || !canvasRef.current) return;
+    const rect = canvasRef.current.getBoundingClientRect();
+    const dx = ((e.clientX - drag.startX) / rect.width) * 100;
+    const dy = ((e.clientY - drag.startY) / rect.height) * 100;
+    setBox(drag.kind, drag.index, applyDrag(drag.startBox, drag.mode, dx, dy));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (drag) canvasRef.current?.releasePointerCapture(e.pointerId);
+    setDrag(null);
+  };
+
+  const renderBox = (kind: BoxKind, box: Box, i: number, label: string) => {
+    const [ymin, xmin, ymax, xmax] = box;
+    const color = kind === 'figure' ? 'border-amber-500 bg-amber-400/10' : 'border-indigo-500 bg-indigo-400/10';
+    return (
+      <div
+        key={`${kind}-${i}`}
+        className={`absolute border-2 ${color} cursor-move`}
+        style={{ top: `${ymin}%`, left: `${xmin}%`, height: `${ymax - ymin}%`, width: `${xmax - xmin}%` }}
+        onPointerDown={e => startDrag(e, kind, i, 'move')}
+        title={label}
+      >
+        <span className={`absolute -top-5 left-0 text-[10px] font-medium px-1 rounded text-white whitespace-nowrap ${kind === 'figure' ? 'bg-amber-500' : 'bg-indigo-500'}`}>
+          {label}
+        </span>
+        <div
+          className={`absolute -bottom-1.5 -right-1.5 w-3 h-3 rounded-sm cursor-se-resize ${kind === 'figure' ? 'bg-amber-500' : 'bg-indigo-500'}`}
+          onPointerDown={e => startDrag(e, kind, i, 'resize')}
+        />
+      </div>
+    );
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-900 text-lg">Edit Slide {index + 1}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors" aria-label="Close editor">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-1 lg:grid-cols-2 gap-6 p-6">
+          {/* Slide image with draggable boxes */}
+          <div className="space-y-3">
+            <div
+              ref={canvasRef}
+              className="relative bg-slate-200 rounded-lg select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <img src={slide.originalImage} alt={`Slide ${index + 1}`} className="w-full h-auto block rounded-lg" draggable={false} />
+              {draft.textBlocks?.map((block, i) => renderBox('text', block.boundingBox, i, `Text ${i + 1}`))}
+              {draft.figures?.map((figure, i) => renderBox('figure', figure.boundingBox, i, `Figure ${i + 1}`))}
+            </div>
+            <p className="text-xs text-slate-500">
+              Drag a box to move it, or its corner handle to resize. Figures are cropped from the original page at export.
+            </p>
+            <button
+              onClick={() => update({ figures: [...(draft.figures ?? []), { boundingBox: [35, 35, 65, 65], description: '' }] })}
+              className="text-sm text-amber-700 hover:text-amber-800 font-medium flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" /> Add figure
+            </button>
+            {draft.figures?.map((figure, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="text-xs font-medium text-amber-700 w-16 shrink-0">Figure {i + 1}</span>
+                <input
+                  className={inputClass}
+                  value={figure.description}
+                  placeholder="Description"
+                  onChange={e => update({ figures: draft.figures!.map((f, fi) => fi === i ? { ...f, description: e.target.value } : f) })}
+                />
+                {(figure.chart || figure.table) && (
+                  <button
+                    onClick={() => update({ figures: draft.figures!.map((f, fi) => fi === i ? { boundingBox: f.boundingBox, description: f.description } : f) })}
+                    className="text-xs text-slate-500 hover:text-amber-700 whitespace-nowrap"
+                    title={`Exported as an editable ${figure.chart ? 'chart' : 'table'}. Click to export the cropped image instead.`}
+                  >
+                    {figure.chart ? 'Chart' : 'Table'} · use image
+                  </button>
+                )}
+                <button
+                  onClick={() => update({ figures: draft.figures!.filter((_, fi) => fi !== i) })}
+                  className="text-slate-400 hover:text-red-500"
+                  aria-label={`Remove figure ${i + 1}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Text fields */}
+          <div className="space-y-4">
+            <label className="block space-y-1">
+              <span className="text-sm font-medium text-slate-700">Title</span>
+              <input className={inputClass} value={draft.title} onChange={e => setDraft(prev => withTitle(prev, e.target.value))} />
+            </label>
+
+            <div className="space-y-1">
+              <span className="text-sm font-medium text-slate-700">Content</span>
+              {paragraphs.map((paragraph, i) => {
+                const level = paragraph.level ?? 0;
+                return (
+                  <div key={i} className="flex items-start gap-2" style={{ paddingLeft: `${level * 1.25}rem` }}>
+                    <div className="flex-1">
+                      <textarea
+                        className={inputClass}
+                        rows={2}
+                        value={paragraphText(paragraph)}
+                        onChange={e => updateParagraph(i, p => retype(p, e.target.value))}
+                      />
+                      {isFormatted(paragraph) && (
+                        <p className="text-xs text-slate-400">Has bold, italic or link text; retyping it resets the formatting.</p>
+                      )}
+                    </div>
+                    <select
+                      className="mt-2 text-sm border border-slate-300 rounded-lg px-1 py-0.5"
+                      value={paragraph.list ?? 'bullet'}
+                      onChange={e => updateParagraph(i, p => ({ ...p, list: e.target.value as SlideParagraph['list'] }))}
+                      aria-label={`List style of item ${i + 1}`}
+                    >
+                      <option value="bullet">•</option>
+                      <option value="number">1.</option>
+                      <option value="none">None</option>
+                    </select>
+                    <button
+                      onClick={() => updateParagraph(i, p => ({ ...p, level: level - 1 || undefined }))}
+                      disabled={level === 0}
+                      className="text-slate-400 hover:text-indigo-600 disabled:opacity-30 mt-2"
+                      aria-label={`Outdent item ${i + 1}`}
+                    >
+                      <ListIndentDecrease className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => updateParagraph(i, p => ({ ...p, level: level + 1 }))}
+                      disabled={level >= MAX_PARAGRAPH_LEVEL}
+                      className="text-slate-400 hover:text-indigo-600 disabled:opacity-30 mt-2"
+                      aria-label={`Indent item ${i + 1}`}
+                    >
+                      <ListIndentIncrease className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => editContent(owned => owned.filter((_, oi) => oi !== i))}
+                      className="text-slate-400 hover:text-red-500 mt-2"
+                      aria-label={`Remove item ${i + 1}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                onClick={addParagraph}
+                className="text-sm text-indigo-600 hover:text-indigo-700 font-medium flex items-center gap-1"
+              >
+                <Plus className="w-4 h-4" /> Add item
+              </button>
+            </div>
+
+            {draft.textBlocks && draft.textBlocks.length > 0 && (
+              <div className="space-y-1">
+                <span className="text-sm font-medium text-slate-700">Positioned text blocks</span>
+                <p className="text-xs text-slate-500">These are placed at their original positions on export. Blocks showing the title or content follow your edits above.</p>
+                {draft.textBlocks.map((block, i) => (
+                  <div key={i} className="flex items-start gap-2">
+                    <span className="text-xs font-medium text-indigo-700 w-12 shrink-0 mt-2">Text {i + 1}</span>
+                    {block.paragraphs || block.title ? (
+                      <p className="flex-1 px-3 py-2 text-sm text-slate-500 italic">
+                        Shows the {block.paragraphs ? 'content' : 'title'}: {block.text.split('\n')[0]}{block.text.includes('\n') ? '…' : ''}
+                      </p>
+                    ) : (
+                      <textarea
+                        className={inputClass}
+                        rows={2}
+                        value={block.text}
+                        onChange={e => update({ textBlocks: draft.textBlocks!.map((b, bi) => bi === i ? { ...b, text: e.target.value } : b) })}
+                      />
+                    )}
+                    <button
+                      onClick={() => update({ textBlocks: draft.textBlocks!.filter((_, bi) => bi !== i) })}
+                      className="text-slate-400 hover:text-red-500 mt-2"
+                      aria-label={`Remove text block ${i + 1}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <label className="block space-y-1">
+                <span className="text-sm font-medium text-slate-700">Layout</span>
+                <select
+                  className={inputClass}
+                  value={draft.layoutType}
+                  onChange={e => update({ layoutType: e.target.value as SlideContent['layoutType'] })}
+                >
+                  {LAYOUT_TYPES.map(type => (
+                    <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-sm font-medium text-slate-700">Background</span>
+                <input
+                  type="color"
+                  className="w-full h-9 border border-slate-300 rounded-lg cursor-pointer"
+                  value={draft.backgroundColor || '#FFFFFF'}
+                  onChange={e => update({ backgroundColor: e.target.value.toUpperCase() })}
+                />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-sm font-medium text-slate-700">Text</span>
+                <input
+                  type="color"
+                  className="w-full h-9 border border-slate-300 rounded-lg cursor-pointer"
+                  value={draft.textColor || '#000000'}
+                  onChange={e => update({ textColor: e.target.value.toUpperCase() })}
+                />
+              </label>
+            </div>
+
+            <label className="block space-y-1">
+              <span className="text-sm font-medium text-slate-700">Speaker notes</span>
+              <textarea className={inputClass} rows={3} value={draft.notes ?? ''} onChange={e => update({ notes: e.target.value })} />
+            </label>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-slate-200 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:text-slate-900 font-medium transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors shadow-sm shadow-indigo-200 flex items-center gap-2"
+          >
+            <Save className="w-4 h-4" /> Save changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SlideEditor;
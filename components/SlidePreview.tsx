@@ -1,23 +1,56 @@
 import React from 'react';
 import { ProcessedSlide } from '../types';
-import { CheckCircle2, CircleDashed, AlertTriangle, FileText, Layout } from 'lucide-react';
+import { CheckCircle2, CircleDashed, AlertTriangle, FileText, Layout, Pencil, RotateCcw, AlertCircle, Database } from 'lucide-react';
 
 interface SlidePreviewProps {
   slides: ProcessedSlide[];
+  onEditSlide?: (index: number) => void; // Editing is only offered once analysis has finished
+  onReanalyzeSlide?: (index: number) => void; // Retry for failed slides, re-analyze for finished ones
 }
 
-const SlidePreview: React.FC<SlidePreviewProps> = ({ slides }) => {
+const SlidePreview: React.FC<SlidePreviewProps> = ({ slides, onEditSlide, onReanalyzeSlide }) => {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
       {slides.map((slide, index) => (
         <div key={index} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col hover:shadow-md transition-shadow">
           {/* Header */}
           <div className="px-4 py-3 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
-            <span className="font-medium text-slate-700 text-sm">Slide {index + 1}</span>
-            {slide.status === 'done' && <CheckCircle2 className="w-5 h-5 text-green-500" />}
-            {slide.status === 'analyzing' && <CircleDashed className="w-5 h-5 text-indigo-500 animate-spin" />}
-            {slide.status === 'pending' && <div className="w-5 h-5 rounded-full border-2 border-slate-300" />}
-            {slide.status === 'error' && <AlertTriangle className="w-5 h-5 text-red-500" />}
+            <span className="font-medium text-slate-700 text-sm">
+              Slide {index + 1}
+              {slide.pageNumber && slide.pageNumber !== index + 1 && (
+                <span className="text-slate-400 font-normal"> · Page {slide.pageNumber}</span>
+              )}
+            </span>
+            <div className="flex items-center gap-2">
+              {onReanalyzeSlide && slide.status !== 'analyzing' && (
+                <button
+                  onClick={() => onReanalyzeSlide(index)}
+                  className={`text-xs font-medium flex items-center gap-1 transition-colors ${slide.status === 'error' ? 'text-red-600 hover:text-red-700' : 'text-slate-600 hover:text-indigo-600'}`}
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  {slide.status === 'error' ? 'Retry' : slide.status === 'pending' ? 'Analyze' : 'Re-analyze'}
+                </button>
+              )}
+              {onEditSlide && slide.status !== 'analyzing' && (
+                <button
+                  onClick={() => onEditSlide(index)}
+                  className="text-xs text-slate-600 hover:text-indigo-600 font-medium flex items-center gap-1 transition-colors"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                  Edit
+                </button>
+              )}
+              {slide.fromCache && slide.status === 'done' && (
+                <span className="text-[10px] font-medium text-emerald-700 bg-emerald-50 border border-emerald-200 px-1.5 py-0.5 rounded flex items-center gap-1" title="Loaded from the local analysis cache">
+                  <Database className="w-3 h-3" />
+                  Cached
+                </span>
+              )}
+              {slide.status === 'done' && <CheckCircle2 className="w-5 h-5 text-green-500" />}
+              {slide.status === 'analyzing' && <CircleDashed className="w-5 h-5 text-indigo-500 animate-spin" />}
+              {slide.status === 'pending' && <div className="w-5 h-5 rounded-full border-2 border-slate-300" />}
+              {slide.status === 'error' && <AlertTriangle className="w-5 h-5 text-red-500" />}
+            </div>
           </div>
 
           {/* Image & Overlay */}
@@ -25,7 +58,7 @@ const SlidePreview: React.FC<SlidePreviewProps> = ({ slides }) => {
             <img 
               src={slide.originalImage} 
               alt={`Slide ${index + 1}`} 
-              className="w-full h-full object-cover"
+              className="w-full h-full object-contain"
             />
             {slide.status === 'analyzing' && (
               <div className="absolute inset-0 bg-white/60 backdrop-blur-[2px] flex items-center justify-center">
@@ -51,6 +84,18 @@ const SlidePreview: React.FC<SlidePreviewProps> = ({ slides }) => {
                     {slide.analysis.content.length > 0 && ` - ${slide.analysis.content[0]}`}
                   </p>
                 </div>
+                {/* Validation warnings */}
+                {slide.warnings && slide.warnings.length > 0 && (
+                  <details className="bg-amber-50 border border-amber-200 rounded-lg px-2 py-1.5 text-xs text-amber-800">
+                    <summary className="cursor-pointer font-medium flex items-center gap-1.5">
+                      <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+                      Needs a look: {slide.warnings.length} issue{slide.warnings.length === 1 ? '' : 's'} fixed automatically
+                    </summary>
+                    <ul className="mt-1 pl-5 list-disc space-y-0.5">
+                      {slide.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                    </ul>
+                  </details>
+                )}
                 {/* Color swatches */}
                 <div className="mt-auto pt-2 flex items-center gap-2">
                     <div 
@@ -70,7 +115,9 @@ const SlidePreview: React.FC<SlidePreviewProps> = ({ slides }) => {
             ) : (
                 <div className="flex-1 flex items-center justify-center">
                     <span className="text-xs text-slate-400 italic">
-                        {slide.status === 'error' ? 'Analysis failed' : 'Waiting for analysis...'}
+                        {slide.status === 'error' && 'Analysis failed - exported as page image unless retried'}
+                        {slide.status === 'pending' && (onReanalyzeSlide ? 'Not analyzed - exported as page image' : 'Waiting for analysis...')}
+                        {slide.status === 'analyzing' && 'Waiting for analysis...'}
                     </span>
                 </div>
             )}
@@ -0,0 +1,141 @@
+import { AccessibilityIssue, BrandTemplate, ConversionMode, DeckTheme, DocRect, ProcessedSlide, SlideFigure, ThemeMaster } from '../types';
+import { getSlideMaster } from './deckTheme';
+import { getTemplateLayout } from './brandTemplate';
+
+// --- Reading order ---
+
+// Groups items into runs separated by clear gaps along one axis
+const splitAlong = <T>(items: T[], span: (item: T) => [number, number]): T[][] => {
+  const sorted = [...items].sort((a, b) => span(a)[0] - span(b)[0]);
+  const groups: T[][] = [];
+  let end = -Infinity;
+  for (const item of sorted) {
+    const [start, stop] = span(item);
+    if (groups.length === 0 || start >= end) {
+      groups.push([item]);
+    } else {
+      groups[groups.length - 1].push(item);
+    }
+    end = Math.max(end, stop);
+  }
+  return groups;
+};
+
+/**
+ * Sorts shapes into the order a reader would take them in, which is also the order screen
+ * readers announce them. Recursive XY-cut: side-by-side columns are read one after the other,
+ * bands stacked on top of each other top to bottom. A full-width title forms its own band.
+ */
+export const orderForReading = <T>(items: T[], rectOf: (item: T) => DocRect): T[] => {
+  if (items.length <= 1) return items;
+  const columns = splitAlong(items, item => [rectOf(item).x, rectOf(item).x + rectOf(item).w]);
+  if (columns.length > 1) return columns.flatMap(column => orderForReading(column, rectOf));
+  const bands = splitAlong(items, item => [rectOf(item).y, rectOf(item).y + rectOf(item).h]);
+  if (bands.length > 1) return bands.flatMap(band => orderForReading(band, rectOf));
+  // Overlapping in both directions: fall back to top-left first
+  return [...items].sort((a, b) => rectOf(a).y - rectOf(b).y || rectOf(a).x - rectOf(b).x);
+};
+
+// --- Alt text ---
+
+// Descriptions that say nothing about the picture, e.g. what text-layer extraction fills in
+const PLACEHOLDER_DESCRIPTIONS = new Set(['', 'image', 'embedded image', 'figure', 'picture']);
+
+export const isDescribed = (figure: Pick<SlideFigure, 'description'>): boolean =>
+  !PLACEHOLDER_DESCRIPTIONS.has(figure.description.trim().toLowerCase());
+
+// --- Contrast ---
+
+// WCAG 2 relative luminance of a #RRGGBB color
+const luminance = (hex: string): number => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const [r, g, b] = [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const contrastRatio = (a: string, b: string): number => {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// WCAG AA: 4.5:1 for body text, 3:1 for large text (18pt, or 14pt bold)
+const requiredContrast = (fontSize: number, bold?: boolean) => (fontSize >= 18 || (bold && fontSize >= 14) ? 3 : 4.5);
+
+interface ColoredText {
+  color: string;
+  fontSize: number;
+  bold?: boolean;
+}
+
+// The colors the exported slide will actually use: the template's, the master's, or the slide's own
+const effectiveColors = (slide: ProcessedSlide, master?: ThemeMaster, template?: BrandTemplate): { background: string; texts: ColoredText[] } => {
+  const analysis = slide.analysis!;
+  if (template) {
+    return {
+      background: getTemplateLayout(template, analysis.layoutType).background ?? template.palette.background,
+      texts: [
+        { color: template.palette.title ?? template.palette.text, fontSize: template.titleFontSize ?? 32, bold: true },
+        { color: template.palette.text, fontSize: template.bodyFontSize ?? 18 },
+      ],
+    };
+  }
+  const textColor = master?.textColor ?? analysis.textColor ?? '#000000';
+  const blocks = analysis.textBlocks ?? [];
+  return {
+    background: master?.backgroundColor ?? analysis.backgroundColor ?? '#FFFFFF',
+    texts: blocks.length > 0
+      ? blocks.map(block => ({ color: block.color ?? textColor, fontSize: block.fontSize, bold: block.bold }))
+      : [{ color: textColor, fontSize: 18 }],
+  };
+};
+
+// --- Report ---
+
+/**
+ * Checks the deck as it would be exported: slides without a title, text that fails WCAG AA
+ * contrast against its background, and pictures that would go out without alt text.
+ * Image-only decks have no text of their own, so only their page descriptions are checked.
+ */
+export const buildAccessibilityReport = (slides: ProcessedSlide[], mode: ConversionMode, theme: DeckTheme, template?: BrandTemplate): AccessibilityIssue[] => {
+  const issues: AccessibilityIssue[] = [];
+  // Hybrid slides keep their own colors; masters and templates only apply to editable decks
+  const styled = mode === 'AI_EXTRACT' || mode === 'TEXT_LAYER';
+
+  for (const [slideIndex, slide] of slides.entries()) {
+    const analysis = slide.analysis;
+    if (!analysis) {
+      issues.push({ slideIndex, kind: 'UNDESCRIBED_IMAGE', message: 'Exported as a picture of the page with no description.' });
+      continue;
+    }
+    if (mode === 'IMAGE_ONLY') continue;
+
+    if (!analysis.title.trim()) {
+      issues.push({ slideIndex, kind: 'MISSING_TITLE', message: 'Slide has no title, so it has no name in the outline or for screen readers.' });
+    }
+
+    const master = styled && !template ? getSlideMaster(theme, slideIndex) : undefined;
+    const { background, texts } = effectiveColors(slide, master, styled ? template : undefined);
+    const worst = texts
+      .map(text => ({ ...text, ratio: contrastRatio(text.color, background), required: requiredContrast(text.fontSize, text.bold) }))
+      .filter(text => text.ratio < text.required)
+      .sort((a, b) => a.ratio - b.ratio)[0];
+    if (worst) {
+      issues.push({
+        slideIndex,
+        kind: 'LOW_CONTRAST',
+        message: `Text color ${worst.color} on ${background} has a contrast of ${worst.ratio.toFixed(1)}:1, below the ${worst.required}:1 needed.`,
+      });
+    }
+
+    // Tables are real tables in the output and need no alt text
+    const undescribed = (analysis.figures ?? []).filter(figure => !figure.table && !isDescribed(figure)).length;
+    if (undescribed > 0) {
+      issues.push({ slideIndex, kind: 'UNDESCRIBED_IMAGE', message: `${undescribed} figure${undescribed === 1 ? ' has' : 's have'} no description to use as alt text.` });
+    }
+  }
+
+  return issues;
+};
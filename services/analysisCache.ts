@@ -0,0 +1,88 @@
+import { AnalysisResult } from '../types';
+import { SLIDE_ANALYSIS_PROMPT, SLIDE_ANALYSIS_SCHEMA } from './analysisSchema';
+
+const DB_NAME = 'slideshifter';
+const DB_VERSION = 1;
+const STORE_NAME = 'analyses';
+
+interface CacheEntry {
+  key: string;
+  result: AnalysisResult;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      // Allow a later call to try again (e.g. after the user changes privacy settings)
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const sha256 = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Cache key for one page analysis. The prompt and schema are part of the key, so changing
+ * either invalidates old entries without needing a manual version bump.
+ */
+export const getAnalysisCacheKey = async (base64Image: string, analyzerId: string): Promise<string> => {
+  const promptVersion = await sha256(SLIDE_ANALYSIS_PROMPT + JSON.stringify(SLIDE_ANALYSIS_SCHEMA));
+  return sha256(`${analyzerId}\n${promptVersion}\n${base64Image}`);
+};
+
+// Cache failures (e.g. IndexedDB unavailable in private browsing) only cost a fresh analysis,
+// so they are logged and treated as a miss rather than failing the slide.
+export const getCachedAnalysis = async (key: string): Promise<AnalysisResult | null> => {
+  try {
+    const entry = await runRequest<CacheEntry | undefined>('readonly', store => store.get(key));
+    return entry?.result ?? null;
+  } catch (err) {
+    console.warn("Analysis cache unavailable", err);
+    return null;
+  }
+};
+
+export const putCachedAnalysis = async (key: string, result: AnalysisResult): Promise<void> => {
+  try {
+    const entry: CacheEntry = { key, result, createdAt: Date.now() };
+    await runRequest('readwrite', store => store.put(entry));
+  } catch (err) {
+    console.warn("Could not write to analysis cache", err);
+  }
+};
+
+export const countCachedAnalyses = async (): Promise<number> => {
+  try {
+    return await runRequest<number>('readonly', store => store.count());
+  } catch {
+    return 0;
+  }
+};
+
+export const clearAnalysisCache = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.clear());
+};
@@ -0,0 +1,114 @@
+export interface JobQueue<T> {
+  push: (job: T) => void;
+  // No more jobs will be pushed; `done` resolves once the remaining ones finish
+  close: () => void;
+  done: Promise<void>;
+}
+
+interface JobQueueOptions<T> {
+  concurrency: number;
+  run: (job: T) => Promise<void>; // Must handle its own errors
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs jobs with at most `concurrency` in flight. Jobs can be pushed while others run,
+ * so producers (e.g. page rasterization) can feed the queue as results become available.
+ * Aborting the signal drops jobs that have not started yet; `done` then resolves
+ * as soon as the in-flight jobs settle.
+ */
+export const createJobQueue = <T>({ concurrency, run, signal }: JobQueueOptions<T>): JobQueue<T> => {
+  const pending: T[] = [];
+  let active = 0;
+  let closed = false;
+  let resolveDone: () => void = () => {};
+  const done = new Promise<void>(resolve => { resolveDone = resolve; });
+
+  const pump = () => {
+    if (signal?.aborted) pending.length = 0;
+
+    while (active < Math.max(1, concurrency) && pending.length > 0) {
+      const job = pending.shift() as T;
+      active++;
+      run(job)
+        .catch(err => console.error("Unhandled job failure", err))
+        .finally(() => {
+          active--;
+          pump();
+        });
+    }
+
+    if ((closed || signal?.aborted) && active === 0 && pending.length === 0) {
+      resolveDone();
+    }
+  };
+
+  signal?.addEventListener('abort', pump, { once: true });
+
+  return {
+    push: (job: T) => {
+      if (closed || signal?.aborted) return;
+      pending.push(job);
+      pump();
+    },
+    close: () => {
+      closed = true;
+      pump();
+    },
+    done,
+  };
+};
+
+// Rate limits (429) and server-side failures (5xx) are worth retrying; anything else
+// (bad request, auth, parse errors) will fail the same way again. Both the Gemini SDK's
+// ApiError and AnalyzerHttpError expose the HTTP status as `status`.
+export const isRetryableError = (err: unknown): boolean => {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface BackoffOptions {
+  signal?: AbortSignal;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * Calls `fn`, retrying retryable failures with exponential backoff and jitter
+ * (1s, 2s, 4s, ... capped at maxDelayMs). Waiting is cut short when the signal aborts.
+ */
+export const retryWithBackoff = async <R>(
+  fn: () => Promise<R>,
+  { signal, maxRetries = 4, baseDelayMs = 1000, maxDelayMs = 30000 }: BackoffOptions = {}
+): Promise<R> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (signal?.aborted || attempt >= maxRetries || !isRetryableError(err)) {
+        throw err;
+      }
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      // Jitter keeps parallel workers from retrying in lockstep
+      await sleep(delay / 2 + Math.random() * (delay / 2), signal);
+    }
+  }
+};
@@ -0,0 +1,157 @@
+import { Schema, Type } from "@google/genai";
+
+// Shared by every SlideAnalyzer provider so they all return the same SlideContent shape.
+
+export const SLIDE_ANALYSIS_PROMPT = `Analyze this presentation slide image.
+  1. Extract the title and main text content.
+     Also give the body as paragraphs, in the same order as the content: each with its list nesting level
+     (0 for top-level items, 1 for sub-points and so on), whether it is a bulleted, numbered or plain paragraph,
+     and its text split into runs wherever the formatting changes: bold, italic, or a hyperlink with its URL.
+  2. Determine the layout style.
+  3. Detect any NON-TEXT visual elements such as charts, graphs, diagrams, screenshots, or photos.
+     For each visual element, provide a bounding box as [ymin, xmin, ymax, xmax] on a scale of 0 to 100.
+     (Top-left is 0,0; Bottom-right is 100,100).
+     Do not include simple decorative lines or background shapes as figures.
+     If a figure is a bar, column, line or pie chart whose values you can read, also give its chart type,
+     category labels and each data series with one numeric value per category.
+     If a figure is a table, also give its cells row by row, and whether the first row is a header.
+  4. Suggest colors.
+  5. List every distinct block of text (title, each paragraph or bullet list, captions, footers) as a text block.
+     For each, give its exact text (use line breaks between lines), its bounding box as [ymin, xmin, ymax, xmax]
+     on the same 0 to 100 scale, its font size in points as if the slide were a standard 10-inch wide
+     PowerPoint slide, whether it is bold or italic, its alignment, its color and the closest common
+     font family (e.g. Arial, Calibri, Georgia, Helvetica, Times New Roman).`;
+
+export const SLIDE_ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "The main title of the slide. Empty if none." },
+    content: { 
+      type: Type.ARRAY, 
+      items: { type: Type.STRING },
+      description: "List of bullet points or paragraphs found in the slide body." 
+    },
+    paragraphs: {
+      type: Type.ARRAY,
+      description: "The body paragraphs from content, with list structure and text formatting.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          runs: {
+            type: Type.ARRAY,
+            description: "The paragraph's text, split wherever the formatting changes.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                text: { type: Type.STRING },
+                bold: { type: Type.BOOLEAN },
+                italic: { type: Type.BOOLEAN },
+                url: { type: Type.STRING, description: "Hyperlink target, if this text is a link." }
+              },
+              required: ["text"]
+            }
+          },
+          level: { type: Type.INTEGER, description: "List nesting level, 0 for top-level items." },
+          list: { type: Type.STRING, enum: ['bullet', 'number', 'none'], description: "'none' for plain paragraphs." }
+        },
+        required: ["runs"]
+      }
+    },
+    layoutType: { 
+      type: Type.STRING, 
+      enum: ['TITLE_ONLY', 'TITLE_AND_CONTENT', 'TWO_COLUMN', 'BLANK', 'SECTION_HEADER'],
+      description: "The closest PowerPoint layout matching this slide."
+    },
+    backgroundColor: { type: Type.STRING, description: "Hex color code for the background (e.g. #FFFFFF)." },
+    textColor: { type: Type.STRING, description: "Hex color code for the main text (e.g. #000000)." },
+    notes: { type: Type.STRING, description: "Brief description of the slide content for speaker notes." },
+    figures: {
+      type: Type.ARRAY,
+      description: "Detected diagrams, charts, or images.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          boundingBox: {
+            type: Type.ARRAY,
+            items: { type: Type.NUMBER },
+            description: "[ymin, xmin, ymax, xmax] in percent (0-100)."
+          },
+          chart: {
+            type: Type.OBJECT,
+            description: "Only for bar, column, line or pie charts with readable values.",
+            properties: {
+              type: { type: Type.STRING, enum: ['bar', 'column', 'line', 'pie'], description: "'bar' is horizontal, 'column' is vertical." },
+              categories: { type: Type.ARRAY, items: { type: Type.STRING } },
+              series: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    name: { type: Type.STRING },
+                    values: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+                  },
+                  required: ["name", "values"]
+                }
+              }
+            },
+            required: ["type", "categories", "series"]
+          },
+          table: {
+            type: Type.OBJECT,
+            description: "Only for tables.",
+            properties: {
+              rows: {
+                type: Type.ARRAY,
+                items: { type: Type.ARRAY, items: { type: Type.STRING } },
+                description: "Cell text, row by row."
+              },
+              headerRow: { type: Type.BOOLEAN }
+            },
+            required: ["rows"]
+          }
+        },
+        required: ["boundingBox", "description"]
+      }
+    },
+    textBlocks: {
+      type: Type.ARRAY,
+      description: "Every text block with its position and styling, in reading order.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          boundingBox: {
+            type: Type.ARRAY,
+            items: { type: Type.NUMBER },
+            description: "[ymin, xmin, ymax, xmax] in percent (0-100)."
+          },
+          fontSize: { type: Type.NUMBER, description: "Font size in points on a 10-inch wide slide." },
+          bold: { type: Type.BOOLEAN },
+          italic: { type: Type.BOOLEAN },
+          fontFamily: { type: Type.STRING, description: "Closest common font family name." },
+          align: { type: Type.STRING, enum: ['left', 'center', 'right'] },
+          color: { type: Type.STRING, description: "Hex color code of the text (e.g. #000000)." }
+        },
+        required: ["text", "boundingBox", "fontSize"]
+      }
+    }
+  },
+  required: ["title", "content", "layoutType"]
+};
+
+// Converts the Gemini schema above into plain JSON Schema for OpenAI-compatible servers.
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return result;
+};
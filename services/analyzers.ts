@@ -0,0 +1,28 @@
+import { AnalyzerConfig, SlideAnalyzer } from '../types';
+import { createGeminiAnalyzer, DEFAULT_GEMINI_MODEL } from './geminiService';
+import { createOpenAiAnalyzer, DEFAULT_OPENAI_ENDPOINT } from './openAiAnalyzer';
+import { createMockAnalyzer } from './mockAnalyzer';
+
+export const DEFAULT_ANALYZER_CONFIG: AnalyzerConfig = {
+  provider: 'GEMINI',
+  model: DEFAULT_GEMINI_MODEL,
+};
+
+// Sensible starting values when the user switches provider in the settings
+export const PROVIDER_DEFAULTS: Record<AnalyzerConfig['provider'], AnalyzerConfig> = {
+  GEMINI: DEFAULT_ANALYZER_CONFIG,
+  OPENAI_COMPATIBLE: { provider: 'OPENAI_COMPATIBLE', model: 'qwen2.5vl', endpoint: DEFAULT_OPENAI_ENDPOINT },
+  MOCK: { provider: 'MOCK', model: 'fixtures' },
+};
+
+export const createAnalyzer = (config: AnalyzerConfig): SlideAnalyzer => {
+  switch (config.provider) {
+    case 'OPENAI_COMPATIBLE':
+      return createOpenAiAnalyzer(config.model, config.endpoint, config.apiKey);
+    case 'MOCK':
+      return createMockAnalyzer();
+    case 'GEMINI':
+    default:
+      return createGeminiAnalyzer(config.model || DEFAULT_GEMINI_MODEL);
+  }
+};
@@ -0,0 +1,144 @@
+import { BrandTemplate, SlideContent, TemplateBox, TemplateLayout } from '../types';
+import { normalizeColor } from './slideValidation';
+import { downloadBlob } from './download';
+
+const STORAGE_KEY = 'slideshifter.brandTemplate';
+
+const LAYOUT_TYPES: SlideContent['layoutType'][] = ['TITLE_ONLY', 'TITLE_AND_CONTENT', 'TWO_COLUMN', 'BLANK', 'SECTION_HEADER'];
+
+// The builder's original fixed coordinates, used for any layout the template leaves out
+export const DEFAULT_TEMPLATE_LAYOUTS: Record<SlideContent['layoutType'], TemplateLayout> = {
+  TITLE_AND_CONTENT: { title: { x: 5, y: 9, w: 90, h: 18 }, body: { x: 5, y: 32, w: 90, h: 60 } },
+  TWO_COLUMN: { title: { x: 5, y: 9, w: 90, h: 18 }, body: { x: 5, y: 32, w: 42, h: 60 }, bodyRight: { x: 50, y: 32, w: 42, h: 60 } },
+  TITLE_ONLY: { title: { x: 5, y: 35, w: 90, h: 30 } },
+  SECTION_HEADER: { title: { x: 5, y: 9, w: 90, h: 18 }, body: { x: 10, y: 44, w: 80, h: 40 } },
+  BLANK: {},
+};
+
+const EXAMPLE_TEMPLATE: BrandTemplate = {
+  name: 'Example Corp',
+  fonts: { heading: 'Georgia', body: 'Arial' },
+  palette: { background: '#FFFFFF', text: '#1F2937', title: '#1E3A8A', accent: '#F59E0B' },
+  titleFontSize: 30,
+  bodyFontSize: 18,
+  layouts: {
+    ...DEFAULT_TEMPLATE_LAYOUTS,
+    SECTION_HEADER: { title: { x: 8, y: 38, w: 84, h: 20 }, body: { x: 8, y: 60, w: 84, h: 20 }, background: '#1E3A8A' },
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseBox = (value: unknown, label: string): TemplateBox => {
+  if (!isRecord(value) || !(['x', 'y', 'w', 'h'] as const).every(k => typeof value[k] === 'number' && Number.isFinite(value[k]))) {
+    throw new Error(`${label} must have numeric x, y, w and h (percent of the slide).`);
+  }
+  const box = { x: value.x as number, y: value.y as number, w: value.w as number, h: value.h as number };
+  if (box.x < 0 || box.y < 0 || box.w <= 0 || box.h <= 0 || box.x + box.w > 100.5 || box.y + box.h > 100.5) {
+    throw new Error(`${label} does not fit on the slide (values are percent, 0-100).`);
+  }
+  return box;
+};
+
+const parseColor = (value: unknown, label: string): string => {
+  const color = normalizeColor(value);
+  if (!color) throw new Error(`${label} is not a color: "${String(value)}".`);
+  return color;
+};
+
+/**
+ * Validates an uploaded brand spec. Unlike model output nothing is silently repaired:
+ * a template is written by a person, who should hear exactly which field is wrong.
+ */
+export const parseBrandTemplate = (raw: unknown): BrandTemplate => {
+  if (!isRecord(raw)) throw new Error("Template must be a JSON object.");
+  if (!isRecord(raw.fonts) || typeof raw.fonts.heading !== 'string' || typeof raw.fonts.body !== 'string') {
+    throw new Error("Template needs fonts.heading and fonts.body.");
+  }
+  if (!isRecord(raw.palette)) throw new Error("Template needs a palette.");
+
+  const template: BrandTemplate = {
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Custom template',
+    fonts: { heading: raw.fonts.heading, body: raw.fonts.body },
+    palette: {
+      background: parseColor(raw.palette.background, 'palette.background'),
+      text: parseColor(raw.palette.text, 'palette.text'),
+    },
+    layouts: {},
+  };
+  if (raw.palette.title !== undefined) template.palette.title = parseColor(raw.palette.title, 'palette.title');
+  if (raw.palette.accent !== undefined) template.palette.accent = parseColor(raw.palette.accent, 'palette.accent');
+
+  for (const key of ['titleFontSize', 'bodyFontSize'] as const) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] !== 'number' || raw[key] < 6 || raw[key] > 120) throw new Error(`${key} must be a number between 6 and 120.`);
+    template[key] = raw[key];
+  }
+
+  if (raw.logo !== undefined) {
+    if (!isRecord(raw.logo) || typeof raw.logo.image !== 'string' || !/^(data:image\/|https?:\/\/)/.test(raw.logo.image)) {
+      throw new Error("logo.image must be a data:image URL or an http(s) URL.");
+    }
+    template.logo = { image: raw.logo.image, box: parseBox(raw.logo.box, 'logo.box') };
+  }
+
+  if (raw.layouts !== undefined && !isRecord(raw.layouts)) throw new Error("layouts must be an object keyed by layout type.");
+  for (const [type, value] of Object.entries(raw.layouts ?? {})) {
+    if (!(LAYOUT_TYPES as string[]).includes(type)) {
+      throw new Error(`Unknown layout "${type}". Expected one of ${LAYOUT_TYPES.join(', ')}.`);
+    }
+    if (!isRecord(value)) throw new Error(`layouts.${type} must be an object.`);
+    const layout: TemplateLayout = {};
+    for (const slot of ['title', 'body', 'bodyRight'] as const) {
+      if (value[slot] !== undefined) layout[slot] = parseBox(value[slot], `layouts.${type}.${slot}`);
+    }
+    if (value.background !== undefined) layout.background = parseColor(value.background, `layouts.${type}.background`);
+    template.layouts[type as SlideContent['layoutType']] = layout;
+  }
+
+  return template;
+};
+
+export const loadBrandTemplateFile = async (file: File): Promise<BrandTemplate> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error("Template file is not valid JSON.");
+  }
+  return parseBrandTemplate(raw);
+};
+
+// Layout geometry for a slide type, falling back to the built-in positions
+export const getTemplateLayout = (template: BrandTemplate, layoutType: SlideContent['layoutType']): TemplateLayout =>
+  template.layouts[layoutType] ?? DEFAULT_TEMPLATE_LAYOUTS[layoutType];
+
+// Kept in localStorage so the template survives reloads; returns null if none or unreadable.
+export const getSavedBrandTemplate = (): BrandTemplate | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseBrandTemplate(JSON.parse(stored)) : null;
+  } catch (err) {
+    console.warn("Ignoring unreadable saved template", err);
+    return null;
+  }
+};
+
+export const saveBrandTemplate = (template: BrandTemplate) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(template));
+  } catch (err) {
+    // Usually a large embedded logo exceeding the storage quota
+    throw new Error("The template could not be saved for later sessions. Try a smaller logo image.");
+  }
+};
+
+export const clearSavedBrandTemplate = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const downloadExampleTemplate = () => {
+  const blob = new Blob([JSON.stringify(EXAMPLE_TEMPLATE, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, 'brand-template.example.json');
+};
@@ -0,0 +1,152 @@
+import { DeckTheme, ProcessedSlide, RecurringElement, SlideFigure, SlideTextBlock, ThemeMaster } from '../types';
+
+type Box = [number, number, number, number];
+
+// Colors closer than this (RGB distance) are treated as the same theme color
+const COLOR_TOLERANCE = 40;
+// Recurring elements may drift this much (percent of the page) between slides
+const POSITION_TOLERANCE = 3;
+// An element must appear on this share of a master's slides to move onto the master
+const RECURRING_SHARE = 0.6;
+const HEADING_MIN_FONT_SIZE = 24;
+
+const MASTER_NAME_PREFIX = 'SLIDESHIFTER_MASTER';
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const colorDistance = (a: string, b: string): number => {
+  const [r1, g1, b1] = hexToRgb(a);
+  const [r2, g2, b2] = hexToRgb(b);
+  return Math.hypot(r1 - r2, g1 - g2, b1 - b2);
+};
+
+const mostCommon = <T>(values: T[]): T | undefined => {
+  const counts = new Map<T, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+const boxesMatch = (a: Box, b: Box): boolean => a.every((v, i) => Math.abs(v - b[i]) <= POSITION_TOLERANCE);
+
+// Headers and footers live in the top or bottom band of the page
+const isInEdgeBand = ([ymin, , ymax]: Box): boolean => ymax <= 15 || ymin >= 85;
+
+// Logos are small; a repeated large image is more likely content that happens to repeat
+const isSmall = ([ymin, xmin, ymax, xmax]: Box): boolean => (ymax - ymin) * (xmax - xmin) <= 400;
+
+const isPageNumber = (text: string): boolean => /^\d{1,3}$/.test(text.trim());
+
+interface Candidate<T> {
+  key: string;
+  item: T;
+  sourceIndex: number;
+  slides: Set<number>;
+}
+
+// Groups items by key and position across slides, returning the groups seen on enough slides.
+const findRecurring = <T extends { boundingBox: Box }>(
+  slideIndexes: number[],
+  itemsOf: (index: number) => T[],
+  keyOf: (item: T) => string | null
+): Candidate<T>[] => {
+  const candidates: Candidate<T>[] = [];
+  for (const index of slideIndexes) {
+    for (const item of itemsOf(index)) {
+      const key = keyOf(item);
+      if (key === null) continue;
+      const match = candidates.find(c => c.key === key && boxesMatch(c.item.boundingBox, item.boundingBox));
+      if (match) {
+        match.slides.add(index);
+      } else {
+        candidates.push({ key, item, sourceIndex: index, slides: new Set([index]) });
+      }
+    }
+  }
+
+  const threshold = Math.max(2, Math.ceil(slideIndexes.length * RECURRING_SHARE));
+  return candidates.filter(c => c.slides.size >= threshold);
+};
+
+const textKey = (block: SlideTextBlock): string | null => {
+  if (!isInEdgeBand(block.boundingBox)) return null;
+  return isPageNumber(block.text) ? '#page' : block.text.trim();
+};
+
+const figureKey = (figure: SlideFigure): string | null =>
+  isSmall(figure.boundingBox) && !figure.chart && !figure.table ? 'figure' : null;
+
+const toElement = ({ item, sourceIndex }: Candidate<{ boundingBox: Box }>): RecurringElement => ({
+  sourceIndex,
+  boundingBox: item.boundingBox,
+});
+
+/**
+ * Deck-level pass over the analyzed slides. Slides sharing a background color are grouped under
+ * one master carrying that background, the common text color, and the footers, page numbers and
+ * logos that repeat across them. Heading and body fonts are the most common families used
+ * above and below heading size. Slides whose colors appear only once keep their own styles.
+ */
+export const extractDeckTheme = (slides: ProcessedSlide[]): DeckTheme => {
+  const analyzed = slides.flatMap((slide, index) => (slide.analysis ? [index] : []));
+  const blocks = analyzed.flatMap(i => slides[i].analysis!.textBlocks ?? []);
+
+  const headingFont = mostCommon(blocks.filter(b => b.fontFamily && b.fontSize >= HEADING_MIN_FONT_SIZE).map(b => b.fontFamily!));
+  const bodyFont = mostCommon(blocks.filter(b => b.fontFamily && b.fontSize < HEADING_MIN_FONT_SIZE).map(b => b.fontFamily!));
+
+  // Greedy clustering by background color, most frequent colors first so they become the centers
+  const backgroundOf = (i: number) => slides[i].analysis!.backgroundColor ?? '#FFFFFF';
+  const centers: { color: string; members: number[] }[] = [];
+  const frequency = new Map<string, number>();
+  for (const index of analyzed) frequency.set(backgroundOf(index), (frequency.get(backgroundOf(index)) ?? 0) + 1);
+  const byFrequency = [...analyzed].sort((a, b) => frequency.get(backgroundOf(b))! - frequency.get(backgroundOf(a))!);
+  for (const index of byFrequency) {
+    const color = backgroundOf(index);
+    const cluster = centers.find(c => colorDistance(c.color, color) <= COLOR_TOLERANCE);
+    if (cluster) {
+      cluster.members.push(index);
+    } else {
+      centers.push({ color, members: [index] });
+    }
+  }
+
+  const masters: ThemeMaster[] = [];
+  const slideMasters: (string | undefined)[] = slides.map(() => undefined);
+
+  for (const cluster of centers.filter(c => c.members.length >= 2)) {
+    const members = cluster.members.sort((a, b) => a - b);
+    const name = `${MASTER_NAME_PREFIX}_${masters.length + 1}`;
+
+    const texts = findRecurring(members, i => slides[i].analysis!.textBlocks ?? [], textKey);
+    const figures = findRecurring(members, i => slides[i].analysis!.figures ?? [], figureKey);
+    const pageNumber = texts.find(c => c.key === '#page');
+
+    masters.push({
+      name,
+      backgroundColor: cluster.color,
+      textColor: mostCommon(members.map(i => slides[i].analysis!.textColor ?? '#000000')) ?? '#000000',
+      recurringText: texts.filter(c => c !== pageNumber).map(c => ({ ...toElement(c), block: c.item })),
+      recurringFigures: figures.map(c => ({ ...toElement(c), description: c.item.description })),
+      slideNumber: pageNumber && { ...toElement(pageNumber), block: pageNumber.item },
+    });
+    for (const index of members) slideMasters[index] = name;
+  }
+
+  return { headingFont, bodyFont, masters, slideMasters };
+};
+
+export const getSlideMaster = (theme: DeckTheme, index: number): ThemeMaster | undefined =>
+  theme.masters.find(m => m.name === theme.slideMasters[index]);
+
+// True when the master already draws this block, so the slide should not repeat it
+export const isMasterTextBlock = (master: ThemeMaster, block: SlideTextBlock): boolean => {
+  const key = textKey(block);
+  if (key === null) return false;
+  if (key === '#page') return Boolean(master.slideNumber && boxesMatch(master.slideNumber.boundingBox, block.boundingBox));
+  return master.recurringText.some(r => r.block.text.trim() === key && boxesMatch(r.boundingBox, block.boundingBox));
+};
+
+export const isMasterFigure = (master: ThemeMaster, figure: SlideFigure): boolean =>
+  figureKey(figure) !== null && master.recurringFigures.some(r => boxesMatch(r.boundingBox, figure.boundingBox));
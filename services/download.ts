@@ -0,0 +1,67 @@
+// Triggers a browser download for in-memory data
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// A finished export, kept until the user saves or shares it
+export interface ExportedFile {
+  blob: Blob;
+  fileName: string;
+}
+
+const asFile = ({ blob, fileName }: ExportedFile) => new File([blob], fileName, { type: blob.type });
+
+// Web Share with files is mostly mobile and Safari; elsewhere the button is hidden
+export const canShareFile = (exported: ExportedFile): boolean =>
+  typeof navigator.canShare === 'function' && navigator.canShare({ files: [asFile(exported)] });
+
+// Resolves false when the user dismisses the share sheet
+export const shareFile = async (exported: ExportedFile): Promise<boolean> => {
+  try {
+    await navigator.share({ files: [asFile(exported)], title: exported.fileName });
+    return true;
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return false;
+    throw err;
+  }
+};
+
+// File System Access API, Chromium only; not in TypeScript's DOM types yet
+type SaveFilePicker = (options: { suggestedName: string }) => Promise<FileSystemFileHandle>;
+
+export const canSaveFileAs = (): boolean => 'showSaveFilePicker' in window;
+
+// Lets the user pick the folder and name; resolves false when the picker is cancelled
+export const saveFileAs = async ({ blob, fileName }: ExportedFile): Promise<boolean> => {
+  const showSaveFilePicker = (window as unknown as { showSaveFilePicker: SaveFilePicker }).showSaveFilePicker;
+  let handle: FileSystemFileHandle;
+  try {
+    handle = await showSaveFilePicker({ suggestedName: fileName });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return false;
+    throw err;
+  }
+  const writable = await handle.createWritable();
+  await writable.write(blob);
+  await writable.close();
+  return true;
+};
+
+// "Quarterly Review.pdf" -> "Quarterly Review"
+export const baseFileName = (fileName: string): string =>
+  fileName.replace(/\.[^./\\]+$/, '') || 'Presentation';
+
+// "data:image/png;base64,..." -> { base64: "...", extension: "png" }, for writing images into zips
+export const splitDataUrl = (dataUrl: string): { base64: string; extension: string } => {
+  const match = dataUrl.match(/^data:image\/([a-z+]+);base64,(.*)$/s);
+  if (!match) throw new Error("Not a base64 image data URL.");
+  return { base64: match[2], extension: match[1] === 'jpeg' ? 'jpg' : match[1].replace('+xml', '') };
+};
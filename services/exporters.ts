@@ -0,0 +1,75 @@
+import JSZip from 'jszip';
+import { BrandTemplate, ConversionMode, DeckTheme, NotesStrategy, ProcessedSlide } from '../types';
+import { ImageEncoding, renderPptx } from './pptBuilder';
+import { buildSlideDocument, DeckOptions } from './slideDocument';
+import { baseFileName, ExportedFile } from './download';
+import { exportMarkdown } from './markdownExporter';
+import { exportRevealHtml } from './revealExporter';
+import { exportDeckJson } from './jsonExporter';
+
+export type ExportFormat = 'PPTX' | 'MARKDOWN' | 'REVEAL' | 'JSON';
+
+export interface ExportContext {
+  mode: ConversionMode;
+  baseName: string; // Output file name without extension, usually the source PDF's
+  theme?: DeckTheme;
+  template?: BrandTemplate;
+  notes?: NotesStrategy; // What goes into speaker notes, in every format that has them
+  sourceFileNames?: string[]; // Input files, indexed by ProcessedSlide.sourceIndex
+  splitBySource?: boolean; // One output per input file, bundled as a zip
+  encoding?: ImageEncoding; // The render quality's image format, for pages the exporter redraws
+}
+
+export interface Exporter {
+  format: ExportFormat;
+  name: string;
+  description: string;
+  // Builds the file; saving or sharing it is up to the caller
+  export: (slides: ProcessedSlide[], context: ExportContext) => Promise<ExportedFile>;
+}
+
+// PowerPoint output depends on the conversion mode, as does every other format's: image mode
+// exports page images whatever analysis the slides have.
+// Also used by the CLI, which writes the Blob to disk instead of downloading it.
+// Slides that still have no analysis are exported as page images to keep the page count.
+export const buildPptx = (slides: ProcessedSlide[], mode: ConversionMode, options?: DeckOptions, encoding?: ImageEncoding): Promise<Blob> =>
+  renderPptx(buildSlideDocument(slides, mode, options), slides, encoding);
+
+// Image and hybrid decks get a suffix so they don't overwrite an editable deck of the same source
+const PPTX_FILE_SUFFIX: Record<ConversionMode, string> = {
+  AI_EXTRACT: '',
+  TEXT_LAYER: '',
+  IMAGE_ONLY: '_images',
+  HYBRID: '_hybrid',
+};
+
+const exportPptx = async (slides: ProcessedSlide[], { mode, baseName, theme, template, notes, sourceFileNames, splitBySource, encoding }: ExportContext): Promise<ExportedFile> => {
+  if (!splitBySource || !sourceFileNames || sourceFileNames.length < 2) {
+    return { blob: await buildPptx(slides, mode, { theme, template, notes }, encoding), fileName: `${baseName}${PPTX_FILE_SUFFIX[mode]}.pptx` };
+  }
+
+  // The merged deck's theme doesn't apply per file; each deck derives its own
+  const zip = new JSZip();
+  for (const [sourceIndex, name] of sourceFileNames.entries()) {
+    const fileSlides = slides.filter(s => (s.sourceIndex ?? 0) === sourceIndex);
+    if (fileSlides.length === 0) continue;
+    // "deck.pdf" and "deck.png" would otherwise overwrite each other
+    const base = `${baseFileName(name)}${PPTX_FILE_SUFFIX[mode]}`;
+    const fileName = zip.file(`${base}.pptx`) ? `${base}_${sourceIndex + 1}.pptx` : `${base}.pptx`;
+    zip.file(fileName, await buildPptx(fileSlides, mode, { template, notes }, encoding));
+  }
+  return { blob: await zip.generateAsync({ type: 'blob' }), fileName: `${baseName}_presentations.zip` };
+};
+
+export const EXPORTERS: Exporter[] = [
+  { format: 'PPTX', name: 'PowerPoint', description: 'Editable .pptx deck', export: exportPptx },
+  { format: 'MARKDOWN', name: 'Markdown', description: 'Outline with cropped figures, as a .zip', export: (slides, { mode, baseName, notes }) => exportMarkdown(slides, baseName, mode, notes) },
+  { format: 'REVEAL', name: 'reveal.js', description: 'HTML slideshow, needs an internet connection to play', export: (slides, { mode, baseName, notes }) => exportRevealHtml(slides, baseName, mode, notes) },
+  { format: 'JSON', name: 'JSON', description: 'Slide data and Google Slides API requests', export: (slides, { mode, baseName }) => exportDeckJson(slides, baseName, mode) },
+];
+
+export const getExporter = (format: ExportFormat): Exporter => {
+  const exporter = EXPORTERS.find(e => e.format === format);
+  if (!exporter) throw new Error(`Unknown export format: ${format}`);
+  return exporter;
+};
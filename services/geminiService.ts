@@ -1,7 +1,15 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { SlideContent } from '../types';
+import { GoogleGenAI } from "@google/genai";
+import { AnalysisResult, SlideAnalyzer } from '../types';
+import { SLIDE_ANALYSIS_PROMPT, SLIDE_ANALYSIS_SCHEMA } from './analysisSchema';
+import { normalizeSlideContent } from './slideValidation';
 
-export const analyzeSlideImage = async (base64Image: string): Promise<SlideContent> => {
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+export const analyzeSlideImage = async (
+  base64Image: string,
+  signal?: AbortSignal,
+  model: string = DEFAULT_GEMINI_MODEL
+): Promise<AnalysisResult> => {
   if (!process.env.API_KEY) {
     throw new Error("API Key is missing");
   }
@@ -12,7 +20,7 @@ export const analyzeSlideImage = async (base64Image: string): Promise<SlideConte
   const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
 
   const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
+    model,
     contents: {
       parts: [
         {
@@ -22,66 +30,33 @@ export const analyzeSlideImage = async (base64Image: string): Promise<SlideConte
           }
         },
         {
-          text: `Analyze this presentation slide image. 
-          1. Extract the title and main text content.
-          2. Determine the layout style.
-          3. Detect any NON-TEXT visual elements such as charts, graphs, diagrams, screenshots, or photos.
-             For each visual element, provide a bounding box as [ymin, xmin, ymax, xmax] on a scale of 0 to 100.
-             (Top-left is 0,0; Bottom-right is 100,100).
-             Do not include simple decorative lines or background shapes as figures.
-          4. Suggest colors.`
+          text: SLIDE_ANALYSIS_PROMPT
         }
       ]
     },
     config: {
+      abortSignal: signal,
       responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING, description: "The main title of the slide. Empty if none." },
-          content: { 
-            type: Type.ARRAY, 
-            items: { type: Type.STRING },
-            description: "List of bullet points or paragraphs found in the slide body." 
-          },
-          layoutType: { 
-            type: Type.STRING, 
-            enum: ['TITLE_ONLY', 'TITLE_AND_CONTENT', 'TWO_COLUMN', 'BLANK', 'SECTION_HEADER'],
-            description: "The closest PowerPoint layout matching this slide."
-          },
-          backgroundColor: { type: Type.STRING, description: "Hex color code for the background (e.g. #FFFFFF)." },
-          textColor: { type: Type.STRING, description: "Hex color code for the main text (e.g. #000000)." },
-          notes: { type: Type.STRING, description: "Brief description of the slide content for speaker notes." },
-          figures: {
-            type: Type.ARRAY,
-            description: "Detected diagrams, charts, or images.",
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                description: { type: Type.STRING },
-                boundingBox: {
-                  type: Type.ARRAY,
-                  items: { type: Type.NUMBER },
-                  description: "[ymin, xmin, ymax, xmax] in percent (0-100)."
-                }
-              },
-              required: ["boundingBox", "description"]
-            }
-          }
-        },
-        required: ["title", "content", "layoutType"]
-      }
+      responseSchema: SLIDE_ANALYSIS_SCHEMA
     }
   });
 
   if (response.text) {
+    let parsed: unknown;
     try {
-      return JSON.parse(response.text) as SlideContent;
+      parsed = JSON.parse(response.text);
     } catch (e) {
       console.error("Failed to parse Gemini response", e);
       throw new Error("Failed to parse analysis results.");
     }
+    return normalizeSlideContent(parsed);
   }
 
   throw new Error("No response from Gemini.");
-};
\ No newline at end of file
+};
+
+export const createGeminiAnalyzer = (model: string = DEFAULT_GEMINI_MODEL): SlideAnalyzer => ({
+  id: `gemini:${model}`,
+  name: `Gemini (${model})`,
+  analyzeSlideImage: (base64Image, signal) => analyzeSlideImage(base64Image, signal, model),
+});
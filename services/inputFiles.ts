@@ -0,0 +1,191 @@
+import { ProcessedSlide, RenderPreset } from '../types';
+import { convertPdfToImages, extractTextLayerSlides, renderPdfThumbnails, RenderedPage } from './pdfUtils';
+import { RENDER_PRESETS, DEFAULT_RENDER_QUALITY } from './renderQuality';
+import { encodePageImage, releaseCanvas } from './pageImages';
+import { getPlatform } from './platform';
+
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Screenshots carry no physical size; treat them as 96 dpi like the browser does
+const CSS_PX_TO_PT = 0.75;
+
+export const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp'];
+
+// Dropped files often come with no MIME type or an unusual one (Windows, some apps), so the extension decides then
+const hasExtension = (file: File, extensions: string[]) => extensions.some(ext => file.name.toLowerCase().endsWith(ext));
+
+export const isPdfFile = (file: File): boolean => file.type === 'application/pdf' || hasExtension(file, ['.pdf']);
+export const isImageFile = (file: File): boolean => IMAGE_TYPES.includes(file.type) || hasExtension(file, IMAGE_EXTENSIONS);
+
+/**
+ * One selectable page across all input files. PDFs contribute one per page,
+ * images exactly one. `fileIndex` points into the list of input files.
+ */
+export interface InputPage {
+  fileIndex: number;
+  pageNumber: number; // 1-based page within its PDF; always 1 for images
+  thumbnail: string;
+  label: string;
+}
+
+// Image inputs are only offered in the browser, so this reads files through an object URL directly
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read image ${file.name}`));
+    };
+    img.src = url;
+  });
+
+// Draws the image onto a white canvas (transparent PNGs would otherwise turn black as JPEG)
+const drawOnWhite = (img: HTMLImageElement, width: number): HTMLCanvasElement => {
+  const canvas = getPlatform().createCanvas(width, Math.round((img.naturalHeight / img.naturalWidth) * width));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not get canvas context');
+  }
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const imageToThumbnail = (img: HTMLImageElement, width: number): string => {
+  const canvas = drawOnWhite(img, width);
+  const thumbnail = canvas.toDataURL('image/jpeg', 0.7);
+  releaseCanvas(canvas);
+  return thumbnail;
+};
+
+/**
+ * Turns a slide screenshot into a page, the same shape convertPdfToImages produces.
+ * Screenshots are kept at their own resolution; the preset only picks the format.
+ */
+export const convertImageToPage = async (file: File, preset: RenderPreset = RENDER_PRESETS[DEFAULT_RENDER_QUALITY]): Promise<RenderedPage> => {
+  const img = await loadImage(file);
+  return {
+    image: await encodePageImage(drawOnWhite(img, img.naturalWidth), preset),
+    pageSize: { width: img.naturalWidth * CSS_PX_TO_PT, height: img.naturalHeight * CSS_PX_TO_PT },
+  };
+};
+
+/**
+ * Thumbnails for every page of every input file, in file order, for the page picker.
+ */
+export const readInputPages = async (files: File[], width: number = 200): Promise<InputPage[]> => {
+  const pages: InputPage[] = [];
+  for (const [fileIndex, file] of files.entries()) {
+    if (isImageFile(file)) {
+      pages.push({ fileIndex, pageNumber: 1, thumbnail: imageToThumbnail(await loadImage(file), width), label: file.name });
+      continue;
+    }
+    const thumbnails = await renderPdfThumbnails(file, width);
+    thumbnails.forEach((thumbnail, i) => {
+      pages.push({
+        fileIndex,
+        pageNumber: i + 1,
+        thumbnail,
+        label: files.length > 1 ? `${file.name} p.${i + 1}` : `Page ${i + 1}`,
+      });
+    });
+  }
+  return pages;
+};
+
+// Where a slide came from; images have no page number to show
+export const slideSource = (files: File[], page: InputPage): Pick<ProcessedSlide, 'sourceIndex' | 'pageNumber'> =>
+  isImageFile(files[page.fileIndex])
+    ? { sourceIndex: page.fileIndex }
+    : { sourceIndex: page.fileIndex, pageNumber: page.pageNumber };
+
+// Consecutive pages from the same file, so each PDF is opened once per run rather than per page
+const toRuns = (pages: InputPage[]): { fileIndex: number; pageNumbers: number[] }[] => {
+  const runs: { fileIndex: number; pageNumbers: number[] }[] = [];
+  for (const page of pages) {
+    const last = runs[runs.length - 1];
+    if (last && last.fileIndex === page.fileIndex) {
+      last.pageNumbers.push(page.pageNumber);
+    } else {
+      runs.push({ fileIndex: page.fileIndex, pageNumbers: [page.pageNumber] });
+    }
+  }
+  return runs;
+};
+
+interface RenderInputOptions {
+  onPage?: (page: RenderedPage, index: number, pageCount: number) => void;
+  signal?: AbortSignal;
+  preset?: RenderPreset;
+}
+
+/**
+ * Renders the selected pages at full quality, in selection order, across PDFs and images.
+ * `onPage` reports the index in the overall selection, not within the source file.
+ */
+export const renderInputPages = async (files: File[], pages: InputPage[], { onPage, signal, preset }: RenderInputOptions = {}): Promise<RenderedPage[]> => {
+  const rendered: RenderedPage[] = [];
+  for (const run of toRuns(pages)) {
+    signal?.throwIfAborted();
+    const file = files[run.fileIndex];
+    const offset = rendered.length;
+    if (isImageFile(file)) {
+      const page = await convertImageToPage(file, preset);
+      rendered.push(page);
+      onPage?.(page, offset, pages.length);
+      continue;
+    }
+    rendered.push(...await convertPdfToImages(file, {
+      pageNumbers: run.pageNumbers,
+      signal,
+      preset,
+      onPage: (page, index) => onPage?.(page, offset + index, pages.length),
+    }));
+  }
+  return rendered;
+};
+
+interface TextLayerInputOptions {
+  onSlide?: (slide: ProcessedSlide) => void; // Called as each slide is ready, so a cancel keeps the ones done so far
+  signal?: AbortSignal;
+  preset?: RenderPreset;
+}
+
+/**
+ * Text-layer conversion across inputs. Images have no text layer, so they come through
+ * as picture slides with a warning.
+ */
+export const extractInputTextLayer = async (files: File[], pages: InputPage[], { onSlide, signal, preset }: TextLayerInputOptions = {}): Promise<ProcessedSlide[]> => {
+  const slides: ProcessedSlide[] = [];
+  const add = (slide: ProcessedSlide) => {
+    slides.push(slide);
+    onSlide?.(slide);
+  };
+  for (const run of toRuns(pages)) {
+    signal?.throwIfAborted();
+    const file = files[run.fileIndex];
+    if (isImageFile(file)) {
+      const page = await convertImageToPage(file, preset);
+      add({
+        originalImage: page.image,
+        pageSize: page.pageSize,
+        analysis: null,
+        status: 'done',
+        sourceIndex: run.fileIndex,
+        warnings: ['Images have no text layer; this slide is exported as a picture.'],
+      });
+      continue;
+    }
+    await extractTextLayerSlides(file, run.pageNumbers, preset, {
+      signal,
+      onSlide: slide => add({ ...slide, sourceIndex: run.fileIndex }),
+    });
+  }
+  return slides;
+};
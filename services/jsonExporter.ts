@@ -0,0 +1,143 @@
+import { ConversionMode, ProcessedSlide, SlideTextBlock } from '../types';
+import { ExportedFile } from './download';
+import { toDataUrl } from './pageImages';
+import { describeSlide } from './speakerNotes';
+
+export const DECK_EXPORT_FORMAT = 'slideshifter-deck';
+export const DECK_EXPORT_VERSION = 1;
+
+const SLIDE_WIDTH_PT = 720; // Google Slides' default 10-inch width
+
+const toRgbColor = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return { red: ((value >> 16) & 255) / 255, green: ((value >> 8) & 255) / 255, blue: (value & 255) / 255 };
+};
+
+// Template layout positions (in percent) used for slides without positioned text blocks
+const templateBlocks = (slide: ProcessedSlide): SlideTextBlock[] => {
+  const analysis = slide.analysis!;
+  const blocks: SlideTextBlock[] = [];
+  if (analysis.title) blocks.push({ text: analysis.title, boundingBox: [8, 5, 26, 95], fontSize: 32, bold: true, align: 'center' });
+  if (analysis.content.length > 0) blocks.push({ text: analysis.content.join('\n'), boundingBox: [30, 5, 92, 95], fontSize: 18 });
+  return blocks;
+};
+
+/**
+ * Google Slides API `presentations.batchUpdate` requests that recreate the text of the deck:
+ * one blank slide per page with its background color and a text box per text block.
+ * Images are left out because the API only accepts them by public URL, which leaves an
+ * image-mode deck as blank slides to place the pages on.
+ */
+const toGoogleSlidesRequests = (slides: ProcessedSlide[], heightPt: number, mode: ConversionMode): object[] => {
+  const requests: object[] = [];
+
+  slides.forEach((slide, index) => {
+    const slideId = `slideshifter_slide_${index + 1}`;
+    requests.push({ createSlide: { objectId: slideId, insertionIndex: index, slideLayoutReference: { predefinedLayout: 'BLANK' } } });
+
+    const analysis = slide.analysis;
+    if (!analysis || mode === 'IMAGE_ONLY') return;
+
+    if (analysis.backgroundColor) {
+      requests.push({
+        updatePageProperties: {
+          objectId: slideId,
+          pageProperties: { pageBackgroundFill: { solidFill: { color: { rgbColor: toRgbColor(analysis.backgroundColor) } } } },
+          fields: 'pageBackgroundFill.solidFill.color',
+        },
+      });
+    }
+
+    const blocks = analysis.textBlocks?.length ? analysis.textBlocks : templateBlocks(slide);
+    blocks.forEach((block, bi) => {
+      const [ymin, xmin, ymax, xmax] = block.boundingBox;
+      const objectId = `${slideId}_text_${bi + 1}`;
+      const color = block.color ?? analysis.textColor;
+      requests.push(
+        {
+          createShape: {
+            objectId,
+            shapeType: 'TEXT_BOX',
+            elementProperties: {
+              pageObjectId: slideId,
+              size: {
+                width: { magnitude: ((xmax - xmin) / 100) * SLIDE_WIDTH_PT, unit: 'PT' },
+                height: { magnitude: ((ymax - ymin) / 100) * heightPt, unit: 'PT' },
+              },
+              transform: { scaleX: 1, scaleY: 1, translateX: (xmin / 100) * SLIDE_WIDTH_PT, translateY: (ymin / 100) * heightPt, unit: 'PT' },
+            },
+          },
+        },
+        { insertText: { objectId, text: block.text } },
+        {
+          updateTextStyle: {
+            objectId,
+            textRange: { type: 'ALL' },
+            style: {
+              fontSize: { magnitude: block.fontSize, unit: 'PT' },
+              bold: Boolean(block.bold),
+              italic: Boolean(block.italic),
+              ...(block.fontFamily ? { fontFamily: block.fontFamily } : {}),
+              ...(color ? { foregroundColor: { opaqueColor: { rgbColor: toRgbColor(color) } } } : {}),
+            },
+            fields: ['fontSize', 'bold', 'italic', block.fontFamily && 'fontFamily', color && 'foregroundColor'].filter(Boolean).join(','),
+          },
+        },
+        {
+          updateParagraphStyle: {
+            objectId,
+            textRange: { type: 'ALL' },
+            style: { alignment: block.align === 'center' ? 'CENTER' : block.align === 'right' ? 'END' : 'START' },
+            fields: 'alignment',
+          },
+        }
+      );
+    });
+  });
+
+  return requests;
+};
+
+// An image-mode analysis only describes the page, so the slide carries its page image instead,
+// as do slides without analysis
+const slideData = async (slide: ProcessedSlide, mode: ConversionMode) => {
+  if (slide.analysis && mode !== 'IMAGE_ONLY') return slide.analysis;
+  const description = slide.analysis ? describeSlide(slide.analysis) : undefined;
+  return { ...(description ? { description } : {}), image: await toDataUrl(slide.originalImage) };
+};
+
+/**
+ * Writes the analyzed deck as JSON for scripting: the slide content plus ready-to-send
+ * Google Slides batchUpdate requests. Slides that have only their page image to show carry it
+ * as a data URL.
+ */
+export const exportDeckJson = async (slides: ProcessedSlide[], baseName: string, mode: ConversionMode): Promise<ExportedFile> => {
+  const first = slides.find(s => s.pageSize)?.pageSize;
+  const heightPt = first ? Math.round((SLIDE_WIDTH_PT * first.height) / first.width) : 405;
+
+  const deckSlides = [];
+  for (const [index, slide] of slides.entries()) {
+    deckSlides.push({
+      index: index + 1,
+      pageNumber: slide.pageNumber,
+      status: slide.status,
+      ...(slide.sourceNotes ? { sourceNotes: slide.sourceNotes } : {}),
+      ...(await slideData(slide, mode)),
+    });
+  }
+
+  const deck = {
+    format: DECK_EXPORT_FORMAT,
+    version: DECK_EXPORT_VERSION,
+    title: baseName,
+    mode,
+    exportedAt: new Date().toISOString(),
+    slides: deckSlides,
+    googleSlides: {
+      pageSize: { width: { magnitude: SLIDE_WIDTH_PT, unit: 'PT' }, height: { magnitude: heightPt, unit: 'PT' } },
+      requests: toGoogleSlidesRequests(slides, heightPt, mode),
+    },
+  };
+
+  return { blob: new Blob([JSON.stringify(deck, null, 2)], { type: 'application/json' }), fileName: `${baseName}.json` };
+};
@@ -0,0 +1,128 @@
+import JSZip from 'jszip';
+import { ConversionMode, FigureChart, FigureTable, NotesStrategy, ProcessedSlide, SlideParagraph, SlideTextRun } from '../types';
+import { cropImage } from './pptBuilder';
+import { ExportedFile, splitDataUrl } from './download';
+import { toDataUrl } from './pageImages';
+import { DEFAULT_NOTES_STRATEGY, describeSlide, resolveSpeakerNotes } from './speakerNotes';
+import { slideParagraphs } from './richText';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Image alt text is a single line, and a closing bracket would end it early
+const escapeAlt = (text: string) => text.replace(/\s*\n\s*/g, '; ').replace(/[[\]]/g, '\\$&');
+
+// Pipes and line breaks would end the cell early
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+
+const tableToMarkdown = (rows: string[][]): string => {
+  const [header, ...body] = rows;
+  return [
+    `| ${header.map(escapeCell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+  ].join('\n');
+};
+
+const figureTableToMarkdown = (table: FigureTable): string =>
+  // Markdown tables always have a header row, so an empty one is added when the source has none
+  tableToMarkdown(table.headerRow ? table.rows : [table.rows[0].map(() => ''), ...table.rows]);
+
+const chartToMarkdown = (chart: FigureChart): string =>
+  tableToMarkdown([['', ...chart.series.map(s => s.name)], ...chart.categories.map((c, i) => [c, ...chart.series.map(s => String(s.values[i]))])]);
+
+// Emphasis markers must touch the text, so surrounding spaces stay outside them
+const runToMarkdown = (run: SlideTextRun): string => {
+  const [, before, text, after] = run.text.replace(/\n/g, ' ').match(/^(\s*)(.*?)(\s*)$/s)!;
+  if (!text) return run.text;
+  let markdown = text;
+  if (run.bold) markdown = `**${markdown}**`;
+  if (run.italic) markdown = `*${markdown}*`;
+  if (run.url) markdown = `[${markdown}](${run.url})`;
+  return `${before}${markdown}${after}`;
+};
+
+// List items indent four spaces per level, at most one level deeper than the item before;
+// plain paragraphs stand as blocks of their own
+const paragraphsToMarkdown = (paragraphs: SlideParagraph[]): string => {
+  const blocks: string[] = [];
+  let previousLevel = -1; // -1 outside a list
+  for (const paragraph of paragraphs) {
+    const text = paragraph.runs.map(runToMarkdown).join('');
+    if (paragraph.list === 'none') {
+      blocks.push(text);
+      previousLevel = -1;
+      continue;
+    }
+    const level = Math.min(paragraph.level ?? 0, previousLevel + 1);
+    const item = `${'    '.repeat(level)}${paragraph.list === 'number' ? '1.' : '-'} ${text}`;
+    if (previousLevel >= 0) blocks[blocks.length - 1] += `\n${item}`;
+    else blocks.push(item);
+    previousLevel = level;
+  }
+  return blocks.join('\n\n');
+};
+
+/**
+ * Builds a Markdown outline of the deck: one section per slide with its title, bullets,
+ * cropped figures and speaker notes. Charts and tables are also written out as Markdown
+ * tables. Slides without analysis, and every slide in image mode, are included as their
+ * page image. Everything is bundled as a zip with the images in an `images/` folder.
+ */
+export const exportMarkdown = async (
+  slides: ProcessedSlide[],
+  baseName: string,
+  mode: ConversionMode,
+  notesStrategy: NotesStrategy = DEFAULT_NOTES_STRATEGY
+): Promise<ExportedFile> => {
+  const zip = new JSZip();
+  const images = zip.folder('images')!;
+  const sections: string[] = [`# ${baseName}`];
+
+  const addImage = (dataUrl: string, name: string): string => {
+    const { base64, extension } = splitDataUrl(dataUrl);
+    images.file(`${name}.${extension}`, base64, { base64: true });
+    return `images/${name}.${extension}`;
+  };
+
+  for (const [index, slide] of slides.entries()) {
+    const slideId = `slide-${pad(index + 1)}`;
+    const analysis = slide.analysis;
+    const notes = resolveSpeakerNotes(slide, notesStrategy);
+    const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+    // An image-mode analysis only describes the page, the same as in the PowerPoint export
+    if (!analysis || mode === 'IMAGE_ONLY') {
+      const alt = escapeAlt((analysis && describeSlide(analysis)) || `Slide ${index + 1}`);
+      sections.push(`## Slide ${index + 1}`, `![${alt}](${addImage(await toDataUrl(slide.originalImage), slideId)})`);
+      if (notes) sections.push(quote(notes));
+      continue;
+    }
+
+    const lines: string[] = [`## ${analysis.title || `Slide ${index + 1}`}`];
+    const paragraphs = slideParagraphs(analysis);
+    if (paragraphs.length > 0) {
+      lines.push(analysis.layoutType === 'SECTION_HEADER'
+        ? paragraphs.map(paragraph => paragraph.runs.map(runToMarkdown).join('')).join('\n\n')
+        : paragraphsToMarkdown(paragraphs));
+    }
+
+    for (const [fi, figure] of (analysis.figures ?? []).entries()) {
+      const alt = escapeAlt(figure.description || `Figure ${fi + 1}`);
+      try {
+        lines.push(`![${alt}](${addImage(await cropImage(slide.originalImage, figure.boundingBox), `${slideId}-figure-${fi + 1}`)})`);
+      } catch (err) {
+        console.error("Failed to crop figure for Markdown export:", err);
+      }
+      if (figure.chart) lines.push(chartToMarkdown(figure.chart));
+      if (figure.table) lines.push(figureTableToMarkdown(figure.table));
+    }
+
+    if (notes) {
+      lines.push(quote(notes));
+    }
+    sections.push(lines.join('\n\n'));
+  }
+
+  zip.file(`${baseName}.md`, sections.join('\n\n') + '\n');
+  return { blob: await zip.generateAsync({ type: 'blob' }), fileName: `${baseName}_markdown.zip` };
+};
@@ -0,0 +1,79 @@
+import { AnalysisResult, SlideAnalyzer, SlideContent } from '../types';
+import { sleep } from './analysisQueue';
+import { normalizeSlideContent } from './slideValidation';
+
+// A small set of canned analyses covering the main layout types, figures, positioned and formatted text.
+const FIXTURES: SlideContent[] = [
+  {
+    title: 'Quarterly Overview',
+    content: ['Revenue grew 12% year over year', 'Customer churn fell to 3.1%', 'Two new regions launched'],
+    layoutType: 'TITLE_AND_CONTENT',
+    backgroundColor: '#FFFFFF',
+    textColor: '#1E293B',
+    notes: 'Fixture slide with a title, bullets and one chart.',
+    figures: [{
+      boundingBox: [30, 55, 85, 95],
+      description: 'Bar chart of revenue by quarter',
+      chart: {
+        type: 'column',
+        categories: ['Q1', 'Q2', 'Q3', 'Q4'],
+        series: [{ name: 'Revenue ($M)', values: [4.2, 4.8, 5.1, 5.6] }]
+      }
+    }],
+    textBlocks: [
+      { text: 'Quarterly Overview', boundingBox: [8, 5, 20, 95], fontSize: 32, bold: true, align: 'left', color: '#1E293B' },
+      {
+        text: '• Revenue grew 12% year over year\n• Customer churn fell to 3.1%\n• Two new regions launched',
+        boundingBox: [30, 5, 70, 50],
+        fontSize: 18,
+        align: 'left',
+        color: '#334155'
+      }
+    ]
+  },
+  {
+    title: 'Section 2: Roadmap',
+    content: [],
+    layoutType: 'SECTION_HEADER',
+    backgroundColor: '#1E3A8A',
+    textColor: '#FFFFFF',
+    notes: 'Fixture section header.'
+  },
+  {
+    title: 'Before and After',
+    content: ['Manual review took 3 days', 'Legacy tooling', 'Automated review takes 2 hours', 'Single pipeline'],
+    paragraphs: [
+      { runs: [{ text: 'Manual review took ' }, { text: '3 days', bold: true }] },
+      { runs: [{ text: 'Legacy tooling', italic: true }], level: 1 },
+      { runs: [{ text: 'Automated review takes ' }, { text: '2 hours', bold: true }] },
+      { runs: [{ text: 'Single ' }, { text: 'pipeline', url: 'https://example.com/pipeline' }], level: 1 }
+    ],
+    layoutType: 'TWO_COLUMN',
+    backgroundColor: '#F8FAFC',
+    textColor: '#0F172A',
+    notes: 'Fixture two-column comparison.'
+  }
+];
+
+// FNV-1a over the image data, so the same page always maps to the same fixture
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic offline analyzer for exercising the pipeline without network access or API keys.
+ * Fixtures go through the same validation as model responses, so they come out the way real analyses do.
+ */
+export const createMockAnalyzer = (delayMs: number = 400): SlideAnalyzer => ({
+  id: 'mock',
+  name: 'Mock fixtures',
+  analyzeSlideImage: async (base64Image: string, signal?: AbortSignal): Promise<AnalysisResult> => {
+    await sleep(delayMs, signal);
+    return normalizeSlideContent(structuredClone(FIXTURES[hashString(base64Image) % FIXTURES.length]));
+  },
+});
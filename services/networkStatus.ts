@@ -0,0 +1,41 @@
+// Everything needed to render, convert and export is bundled with the app. These are the
+// features that still reach out to the internet, so the UI can say which ones won't work.
+
+const PROBE_URL = 'https://generativelanguage.googleapis.com/';
+const PROBE_TIMEOUT_MS = 5000;
+
+export interface UnavailableFeature {
+  name: string;
+  reason: string;
+}
+
+/**
+ * navigator.onLine only says a network interface is up, which is also true on an
+ * air-gapped LAN, so the Gemini endpoint is probed directly. An opaque no-cors
+ * response is enough to know it can be reached.
+ */
+export const checkNetworkAccess = async (): Promise<boolean> => {
+  if (!navigator.onLine) return false;
+  try {
+    await fetch(PROBE_URL, { mode: 'no-cors', cache: 'no-store', signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const hasGeminiApiKey = (): boolean => Boolean(process.env.API_KEY);
+
+export const getUnavailableFeatures = (online: boolean): UnavailableFeature[] => {
+  const features: UnavailableFeature[] = [];
+  if (!online) {
+    features.push(
+      { name: 'Gemini analysis', reason: 'the Gemini API cannot be reached' },
+      { name: 'Company template logos given as http(s) URLs', reason: 'the logo has to be downloaded' },
+      { name: 'reveal.js export', reason: 'the exported file loads reveal.js from a CDN when it is opened' },
+    );
+  } else if (!hasGeminiApiKey()) {
+    features.push({ name: 'Gemini analysis', reason: 'no API key is configured (GEMINI_API_KEY)' });
+  }
+  return features;
+};
@@ -0,0 +1,73 @@
+import { AnalysisResult, SlideAnalyzer } from '../types';
+import { SLIDE_ANALYSIS_PROMPT, SLIDE_ANALYSIS_SCHEMA, toJsonSchema } from './analysisSchema';
+import { normalizeSlideContent } from './slideValidation';
+
+export const DEFAULT_OPENAI_ENDPOINT = 'http://localhost:11434/v1';
+
+// Carries the HTTP status so the analysis queue can back off on 429/5xx like it does for Gemini
+export class AnalyzerHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'AnalyzerHttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API with image input
+ * (OpenAI itself, vLLM, LM Studio, Ollama, llama.cpp server, ...).
+ */
+export const createOpenAiAnalyzer = (model: string, endpoint: string = DEFAULT_OPENAI_ENDPOINT, apiKey?: string): SlideAnalyzer => ({
+  id: `openai:${endpoint}:${model}`,
+  name: `${model} @ ${endpoint}`,
+  analyzeSlideImage: async (base64Image: string, signal?: AbortSignal): Promise<AnalysisResult> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: SLIDE_ANALYSIS_PROMPT },
+              { type: 'image_url', image_url: { url: base64Image } }
+            ]
+          }
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'slide_analysis', schema: toJsonSchema(SLIDE_ANALYSIS_SCHEMA) }
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new AnalyzerHttpError(response.status, `Analysis request failed with status ${response.status}`);
+    }
+
+    const payload = await response.json();
+    const text: string | undefined = payload?.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error("No response from model.");
+    }
+
+    let parsed: unknown;
+    try {
+      // Some local models wrap JSON in a markdown code fence despite response_format
+      parsed = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    } catch (e) {
+      console.error("Failed to parse model response", e);
+      throw new Error("Failed to parse analysis results.");
+    }
+    return normalizeSlideContent(parsed);
+  },
+});
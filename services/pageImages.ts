@@ -0,0 +1,62 @@
+import { ProcessedSlide, RenderPreset } from '../types';
+import { getPlatform } from './platform';
+
+// Page renders live as Blobs behind object URLs instead of base64 strings in React state.
+// A data URL is a third larger than the image and every copy of the string stays in memory,
+// whereas a Blob can sit outside the JS heap and is released with URL.revokeObjectURL.
+// (The CLI keeps data URLs instead; it has no React state and no blob: URL loader.)
+
+// Shrinking to zero frees the backing store right away instead of at the next garbage collection
+export const releaseCanvas = (canvas: HTMLCanvasElement | OffscreenCanvas) => {
+  canvas.width = 0;
+  canvas.height = 0;
+};
+
+// Object URL in the browser, data URL under the CLI
+export const encodePageImage = (canvas: HTMLCanvasElement, { format, quality }: Pick<RenderPreset, 'format' | 'quality'>): Promise<string> =>
+  getPlatform().encodeCanvas(canvas, format, quality);
+
+// Frees the page images of slides that are being discarded
+export const revokePageImages = (slides: ProcessedSlide[]) => {
+  for (const slide of slides) {
+    if (slide.originalImage.startsWith('blob:')) URL.revokeObjectURL(slide.originalImage);
+  }
+};
+
+// For output that has to embed the image itself (PPTX media, project files, inlined HTML)
+export const toDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read page image'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const toObjectUrl = async (dataUrl: string): Promise<string> =>
+  URL.createObjectURL(await (await fetch(dataUrl)).blob());
+
+/**
+ * The copy of a page sent to the analyzer: a JPEG data URL no wider than `width`.
+ * Independent of the render quality, so print-quality pages don't mean larger, slower requests.
+ */
+export const prepareModelImage = async (url: string, width: number): Promise<string> => {
+  const img = await getPlatform().loadImage(url);
+  const scale = Math.min(1, width / img.width);
+
+  const canvas = getPlatform().createCanvas(Math.round(img.width * scale), Math.round(img.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not get canvas context');
+  }
+  // PNG renders may be transparent, which JPEG would turn black
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
+  releaseCanvas(canvas);
+  return dataUrl;
+};
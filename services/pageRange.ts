@@ -0,0 +1,44 @@
+/**
+ * Parses a page selection like "1-5,9,20-" into 1-based page numbers, in the order given.
+ * Open ranges run to the start ("-3") or end ("20-") of the document; an empty spec selects
+ * every page. Duplicates keep their first position.
+ */
+export const parsePageRange = (spec: string, pageCount: number): number[] => {
+  const trimmed = spec.trim();
+  if (!trimmed) {
+    return Array.from({ length: pageCount }, (_, i) => i + 1);
+  }
+
+  const pages: number[] = [];
+  for (const token of trimmed.split(',').map(t => t.trim()).filter(Boolean)) {
+    const match = token.match(/^(\d*)\s*(-?)\s*(\d*)$/);
+    if (!match || (!match[1] && !match[3])) {
+      throw new Error(`"${token}" is not a page or range.`);
+    }
+
+    const start = match[1] ? Number(match[1]) : 1;
+    const end = match[2] ? (match[3] ? Number(match[3]) : pageCount) : start;
+    if (start < 1 || end < 1 || start > pageCount || end > pageCount) {
+      throw new Error(`"${token}" is outside pages 1-${pageCount}.`);
+    }
+
+    const step = start <= end ? 1 : -1;
+    for (let page = start; page !== end + step; page += step) {
+      if (!pages.includes(page)) pages.push(page);
+    }
+  }
+  return pages;
+};
+
+// Inverse of parsePageRange: [1, 2, 3, 5, 9, 10] -> "1-3,5,9-10". Only ascending runs are merged.
+export const formatPageRange = (pages: number[]): string => {
+  const parts: string[] = [];
+  let i = 0;
+  while (i < pages.length) {
+    let j = i;
+    while (j + 1 < pages.length && pages[j + 1] === pages[j] + 1) j++;
+    parts.push(j > i ? `${pages[i]}-${pages[j]}` : `${pages[i]}`);
+    i = j + 1;
+  }
+  return parts.join(',');
+};
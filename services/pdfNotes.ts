@@ -0,0 +1,190 @@
+import { OPS, Util } from 'pdfjs-dist';
+import type { PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// Speaker notes the PDF itself carries: comments and other annotations on the page, and the
+// notes text of "notes pages" exports. Used by the render worker and the main-thread paths alike,
+// so it only touches the page API.
+
+// Links and form fields have no notes; popups repeat the contents of the annotation they belong to
+const IGNORED_ANNOTATIONS = new Set(['Link', 'Widget', 'Popup']);
+
+const readAnnotationNotes = async (page: PDFPageProxy): Promise<string[]> => {
+  const annotations = await page.getAnnotations({ intent: 'display' });
+  const notes: string[] = [];
+  for (const annotation of annotations) {
+    if (IGNORED_ANNOTATIONS.has(annotation.subtype)) continue;
+    const contents: string = (annotation.contentsObj?.str ?? annotation.contents ?? '').trim();
+    if (!contents) continue;
+    const author: string = (annotation.titleObj?.str ?? '').trim();
+    const note = author ? `${author}: ${contents}` : contents;
+    if (!notes.includes(note)) notes.push(note);
+  }
+  return notes;
+};
+
+// PowerPoint's "Notes Pages" and Keynote's presenter-notes printouts put the slide in the top half
+// of a portrait page and the notes below it. A gap in the text alone also turns up in ordinary
+// portrait documents, so the slide itself has to be there: a picture or framed box with a slide's
+// landscape shape, centered above the notes, with all other text of the page below it.
+const NOTES_PAGE_MIN_ASPECT = 1.2; // Height over width
+const SLIDE_FRAME_BOTTOM_RANGE: [number, number] = [0.35, 0.7]; // As a fraction of the page height
+const SLIDE_FRAME_MIN_WIDTH = 0.5; // As a fraction of the page width
+const SLIDE_FRAME_ASPECT_RANGE: [number, number] = [1.2, 2.4]; // Width over height: 4:3 up to beyond 16:9
+const SLIDE_FRAME_MAX_OFFSET = 0.05; // How far off center, as a fraction of the page width
+const NOTES_MIN_GAP = 0.02; // Between the slide and the first line of notes, as a fraction of the page height
+
+// Operator arguments are untyped: matrices are six finite numbers, rectangles four, in arrays or typed arrays
+const toNumbers = (value: unknown, length: number): number[] | undefined => {
+  if (!Array.isArray(value) && !ArrayBuffer.isView(value)) return undefined;
+  const numbers = Array.from(value as ArrayLike<unknown>);
+  return numbers.length === length && numbers.every(v => typeof v === 'number' && Number.isFinite(v)) ? (numbers as number[]) : undefined;
+};
+
+// Bounding boxes, in PDF coordinates, of the images, forms and paths drawn on the page
+const drawnBoxes = (fnArray: number[], argsArray: unknown[][]): number[][] => {
+  const boxes: number[][] = [];
+  const stack: number[][] = [];
+  let ctm = [1, 0, 0, 1, 0, 0];
+  const addBox = (rect: number[]) => {
+    const box = [Infinity, Infinity, -Infinity, -Infinity];
+    Util.axialAlignedBoundingBox(rect, ctm, box);
+    boxes.push(box);
+  };
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const args = argsArray[i];
+    switch (fnArray[i]) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+        ctm = stack.pop() ?? ctm;
+        break;
+      case OPS.transform: {
+        const matrix = toNumbers(args, 6);
+        if (matrix) ctm = Util.transform(ctm, matrix);
+        break;
+      }
+      case OPS.paintFormXObjectBegin: {
+        stack.push(ctm);
+        const matrix = toNumbers(args?.[0], 6);
+        if (matrix) ctm = Util.transform(ctm, matrix);
+        const bbox = toNumbers(args?.[1], 4);
+        if (bbox) addBox(bbox);
+        break;
+      }
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() ?? ctm;
+        break;
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject:
+        // Images are painted into the unit square of the current transform
+        addBox([0, 0, 1, 1]);
+        break;
+      case OPS.constructPath: {
+        // [paint operator, path data, [minX, minY, maxX, maxY]]
+        const minMax = toNumbers(args?.[2], 4);
+        if (minMax) addBox(minMax);
+        break;
+      }
+    }
+  }
+  return boxes;
+};
+
+interface NotesPage {
+  text?: string;
+  slideBox: number[]; // PDF coordinates
+}
+
+const readNotesPage = async (page: PDFPageProxy): Promise<NotesPage | undefined> => {
+  const viewport = page.getViewport({ scale: 1 });
+  if (viewport.height / viewport.width < NOTES_PAGE_MIN_ASPECT) return undefined;
+
+  // The widest slide-shaped box that ends in the upper half of the page
+  const { fnArray, argsArray } = await page.getOperatorList();
+  let slideBox: number[] | undefined;
+  let frame = { left: 0, top: 0, right: 0, bottom: 0 };
+  for (const box of drawnBoxes(fnArray, argsArray)) {
+    const [x0, y0, x1, y1] = Util.normalizeRect(viewport.convertToViewportRectangle(box));
+    const candidate = { left: x0 / viewport.width, top: y0 / viewport.height, right: x1 / viewport.width, bottom: y1 / viewport.height };
+    const width = candidate.right - candidate.left;
+    const aspect = (x1 - x0) / (y1 - y0);
+    if (
+      width < SLIDE_FRAME_MIN_WIDTH || width <= frame.right - frame.left ||
+      aspect < SLIDE_FRAME_ASPECT_RANGE[0] || aspect > SLIDE_FRAME_ASPECT_RANGE[1] ||
+      candidate.bottom < SLIDE_FRAME_BOTTOM_RANGE[0] || candidate.bottom > SLIDE_FRAME_BOTTOM_RANGE[1] ||
+      Math.abs((candidate.left + candidate.right) / 2 - 0.5) > SLIDE_FRAME_MAX_OFFSET
+    ) continue;
+    slideBox = box;
+    frame = candidate;
+  }
+  if (!slideBox) return undefined;
+
+  const { items } = await page.getTextContent();
+  const positioned = items
+    .filter((item): item is TextItem => 'str' in item && Boolean(item.str.trim()))
+    .map(item => {
+      const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+      return { item, left: x / viewport.width, top: y / viewport.height };
+    });
+
+  // Text beside or above the slide means this is some other page with a picture on it
+  const margin = 0.01;
+  const below = positioned.filter(p => p.top > frame.bottom);
+  if (positioned.some(p => p.top <= frame.bottom && (p.top < frame.top - margin || p.left < frame.left - margin || p.left > frame.right + margin))) {
+    return undefined;
+  }
+  if (below.length > 0 && Math.min(...below.map(p => p.top)) - frame.bottom < NOTES_MIN_GAP) return undefined;
+
+  // Runs on a new baseline start a new line even without an end-of-line marker
+  let joined = '';
+  below.forEach((p, i) => {
+    if (i > 0 && Math.abs(p.top - below[i - 1].top) > 0.005 && !joined.endsWith('\n')) joined += '\n';
+    joined += p.item.str + (p.item.hasEOL ? '\n' : '');
+  });
+  const text = joined
+    .split('\n')
+    .map(line => line.trim())
+    // The page number in the footer is no part of the notes
+    .filter(line => line && !/^\d+$/.test(line))
+    .join('\n');
+  return { text: text || undefined, slideBox };
+};
+
+export interface PageNotes {
+  notes?: string;
+  // Set on notes pages: the slide's area in PDF coordinates, which is all of the page the slide keeps
+  slideBox?: number[];
+}
+
+/**
+ * The viewport to render and read a page through: the whole page, or just the slide of a notes page.
+ * pdf.js only builds viewports of whole pages and doesn't export its PageViewport class, but every
+ * viewport carries it.
+ */
+export const slideViewport = (page: PDFPageProxy, scale: number, slideBox?: number[]): PageViewport => {
+  const viewport = page.getViewport({ scale });
+  if (!slideBox) return viewport;
+  const PageViewportClass = viewport.constructor as new (parameters: { viewBox: number[]; userUnit: number; scale: number; rotation: number }) => PageViewport;
+  return new PageViewportClass({ viewBox: slideBox, userUnit: page.userUnit, scale, rotation: page.rotate });
+};
+
+/**
+ * The page's own speaker notes: notes-page text first, then annotation contents, plus the slide
+ * area when the page is a notes page. Never throws; a page whose notes can't be read just has none.
+ */
+export const readPageNotes = async (page: PDFPageProxy): Promise<PageNotes> => {
+  try {
+    const notesPage = await readNotesPage(page);
+    const parts = [notesPage?.text, ...(await readAnnotationNotes(page))].filter(Boolean);
+    return {
+      ...(parts.length > 0 ? { notes: parts.join('\n\n') } : {}),
+      ...(notesPage ? { slideBox: notesPage.slideBox } : {}),
+    };
+  } catch (err) {
+    console.warn("Could not read notes from the PDF page", err);
+    return {};
+  }
+};
@@ -0,0 +1,93 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { PageSize, RenderPreset } from '../types';
+import { releaseCanvas } from './pageImages';
+import { readPageNotes, slideViewport } from './pdfNotes';
+import './pdfWorkerSrc';
+
+// Renders PDF pages off the main thread onto an OffscreenCanvas and posts them back as Blobs.
+// Started by convertPdfToImages; one worker per document, terminated when it's done.
+
+export interface RenderWorkerRequest {
+  data: ArrayBuffer;
+  pageNumbers: number[] | undefined;
+  preset: RenderPreset;
+}
+
+export type RenderWorkerMessage =
+  | { type: 'page'; index: number; pageCount: number; blob: Blob; pageSize: PageSize; notes?: string }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+interface CanvasAndContext {
+  canvas: OffscreenCanvas | null;
+  context: OffscreenCanvasRenderingContext2D | null;
+}
+
+// pdf.js creates its scratch canvases (patterns, masks) through document by default,
+// which doesn't exist in a worker
+class OffscreenCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number) {
+    canvasAndContext.canvas!.width = width;
+    canvasAndContext.canvas!.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext) {
+    releaseCanvas(canvasAndContext.canvas!);
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+const post = (message: RenderWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async ({ data: { data, pageNumbers, preset } }: MessageEvent<RenderWorkerRequest>) => {
+  try {
+    const pdf = await pdfjsLib.getDocument({
+      data,
+      CanvasFactory: OffscreenCanvasFactory,
+      // No FontFace loading without a document; glyphs are drawn as paths instead
+      disableFontFace: true,
+      useSystemFonts: false,
+    }).promise;
+
+    try {
+      const selectedPages = pageNumbers ?? Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+
+      for (const [index, pageNumber] of selectedPages.entries()) {
+        const page = await pdf.getPage(pageNumber);
+        // Read first: on a notes page only the slide is rendered
+        const { notes, slideBox } = await readPageNotes(page);
+        const viewport = slideViewport(page, preset.scale, slideBox);
+        const canvas = new OffscreenCanvas(viewport.width, viewport.height);
+        let blob: Blob;
+        try {
+          const context = canvas.getContext('2d');
+          if (!context) {
+            throw new Error(`Could not get canvas context for page ${pageNumber}`);
+          }
+
+          // pdf.js types its canvas as HTMLCanvasElement but draws onto an OffscreenCanvas just the same
+          await page.render({ canvas: canvas as unknown as HTMLCanvasElement, canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+          blob = await canvas.convertToBlob({ type: preset.format, quality: preset.quality });
+        } finally {
+          releaseCanvas(canvas);
+        }
+        page.cleanup();
+
+        const { width, height } = slideViewport(page, 1, slideBox);
+        post({ type: 'page', index, pageCount: selectedPages.length, blob, pageSize: { width, height }, notes });
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    post({ type: 'done' });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
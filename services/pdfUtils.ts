@@ -1,52 +1,628 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import type { TextItem, TextStyle } from 'pdfjs-dist/types/src/display/api';
+import { PageSize, ProcessedSlide, RenderPreset, SlideContent, SlideFigure, SlideParagraph, SlideTextBlock } from '../types';
+import type { RenderWorkerMessage, RenderWorkerRequest } from './pdfRenderWorker';
+import { RENDER_PRESETS, DEFAULT_RENDER_QUALITY } from './renderQuality';
+import { encodePageImage, releaseCanvas } from './pageImages';
+import { getPlatform } from './platform';
+import { readPageNotes, slideViewport } from './pdfNotes';
+import { paragraphText } from './richText';
 
-// We need to set the worker source. In a real bundler environment, this might be imported.
-// For this standalone setup, we point to a reliable CDN matching the version.
-// Using a specific version to ensure compatibility with the importmap in index.html.
-const PDFJS_VERSION = '5.4.624';
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${PDFJS_VERSION}/build/pdf.worker.min.mjs`;
+// The pdf.js worker is set up by the host: services/pdfWorkerSrc.ts in the browser, while
+// under Node pdf.js runs its worker code in-process by itself.
 
-export const convertPdfToImages = async (file: File): Promise<string[]> => {
-  const arrayBuffer = await file.arrayBuffer();
-  
-  // Loading the document
-  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-  const pdf = await loadingTask.promise;
-  
-  const numPages = pdf.numPages;
-  const images: string[] = [];
-  
-  for (let i = 1; i <= numPages; i++) {
+// PowerPoint's default 16:9 slide is 10 inches (720pt) wide. Font sizes taken from the
+// text layer are expressed relative to that width so they map directly onto the output deck.
+const SLIDE_WIDTH_PT = 720;
+
+export interface RenderedPage {
+  image: string; // Rendered page in the preset's format; an object URL in the browser
+  pageSize: PageSize;
+  notes?: string; // Speaker notes found in the PDF for this page
+}
+
+// Page dimensions in points as displayed, i.e. with the page's /Rotate applied.
+// `slideBox` narrows a notes page down to its slide, see pdfNotes.ts.
+const getPageSize = (page: PDFPageProxy, slideBox?: number[]): PageSize => {
+  const { width, height } = slideViewport(page, 1, slideBox);
+  return { width, height };
+};
+
+const renderPage = async (page: PDFPageProxy, pageNumber: number, scale: number, slideBox?: number[]): Promise<{ canvas: HTMLCanvasElement; viewport: PageViewport }> => {
+  const viewport = slideViewport(page, scale, slideBox);
+
+  const canvas = getPlatform().createCanvas(Math.floor(viewport.width), Math.floor(viewport.height));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+
+  if (!context) {
+    throw new Error(`Could not get canvas context for page ${pageNumber}`);
+  }
+
+  const renderContext = {
+    canvas,
+    canvasContext: context,
+    viewport: viewport,
+  };
+
+  await page.render(renderContext).promise;
+  return { canvas, viewport };
+};
+
+// Every page, in document order, when no selection was made
+const resolvePageNumbers = (pageNumbers: number[] | undefined, numPages: number): number[] =>
+  pageNumbers ?? Array.from({ length: numPages }, (_, i) => i + 1);
+
+// Host-specific options (font and CMap locations under Node) come from the platform
+const openPdf = async (file: File) =>
+  pdfjsLib.getDocument({ data: await file.arrayBuffer(), ...getPlatform().pdfDocumentOptions }).promise;
+
+export const countPdfPages = async (file: File): Promise<number> => {
+  const pdf = await openPdf(file);
+  const { numPages } = pdf;
+  await pdf.destroy();
+  return numPages;
+};
+
+/**
+ * Renders small, low-quality previews of every page for the page picker.
+ * Much cheaper than a full conversion, so the user can choose pages before paying for that.
+ */
+export const renderPdfThumbnails = async (file: File, width: number = 200): Promise<string[]> => {
+  const pdf = await openPdf(file);
+  const thumbnails: string[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
-    
-    // Determine scale. 
-    // User requested "Highest Quality".
-    // 1.5 was standard. 2.5 - 3.0 provides high-density (Retina-like) output.
-    // We use 2.5 to balance high quality with browser memory usage.
-    const viewport = page.getViewport({ scale: 2.5 });
-    
-    const canvas = document.createElement('canvas');
+    const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+
+    const canvas = getPlatform().createCanvas(Math.floor(viewport.width), Math.floor(viewport.height));
     const context = canvas.getContext('2d');
-    
     if (!context) {
       throw new Error(`Could not get canvas context for page ${i}`);
     }
-    
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
-    
-    const renderContext = {
-      canvasContext: context,
-      viewport: viewport,
+
+    await page.render({ canvas, canvasContext: context, viewport }).promise;
+    thumbnails.push(canvas.toDataURL('image/jpeg', 0.7));
+    releaseCanvas(canvas);
+  }
+
+  return thumbnails;
+};
+
+interface ConvertOptions {
+  // 1-based pages to render, in output order. Defaults to every page.
+  pageNumbers?: number[];
+  // Called as soon as each page is rendered, so callers can start work before the whole PDF is done
+  onPage?: (page: RenderedPage, pageIndex: number, pageCount: number) => void;
+  signal?: AbortSignal;
+  preset?: RenderPreset;
+}
+
+const canRenderInWorker = (): boolean => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const renderInWorker = async (file: File, { pageNumbers, onPage, signal, preset }: Required<Pick<ConvertOptions, 'preset'>> & ConvertOptions): Promise<RenderedPage[]> => {
+  const data = await file.arrayBuffer();
+  signal?.throwIfAborted();
+
+  const worker = new Worker(new URL('./pdfRenderWorker.ts', import.meta.url), { type: 'module' });
+  const pages: RenderedPage[] = [];
+  let onAbort = () => {};
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      onAbort = () => reject(signal!.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      worker.onmessage = ({ data: message }: MessageEvent<RenderWorkerMessage>) => {
+        if (message.type === 'page') {
+          const rendered: RenderedPage = { image: URL.createObjectURL(message.blob), pageSize: message.pageSize, notes: message.notes };
+          pages.push(rendered);
+          onPage?.(rendered, message.index, message.pageCount);
+        } else if (message.type === 'done') {
+          resolve();
+        } else {
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = event => reject(new Error(event.message || 'PDF render worker failed'));
+
+      const request: RenderWorkerRequest = { data, pageNumbers, preset };
+      worker.postMessage(request, [data]);
+    });
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    worker.terminate();
+  }
+
+  return pages;
+};
+
+const renderOnMainThread = async (file: File, { pageNumbers, onPage, signal, preset }: Required<Pick<ConvertOptions, 'preset'>> & ConvertOptions): Promise<RenderedPage[]> => {
+  // Loading the document
+  const pdf = await openPdf(file);
+
+  const selectedPages = resolvePageNumbers(pageNumbers, pdf.numPages);
+  const pages: RenderedPage[] = [];
+
+  try {
+    for (const [index, pageNumber] of selectedPages.entries()) {
+      signal?.throwIfAborted();
+
+      const page = await pdf.getPage(pageNumber);
+      const { notes, slideBox } = await readPageNotes(page);
+      const { canvas } = await renderPage(page, pageNumber, preset.scale, slideBox);
+
+      const rendered: RenderedPage = {
+        image: await encodePageImage(canvas, preset),
+        pageSize: getPageSize(page, slideBox),
+        notes,
+      };
+      page.cleanup();
+      pages.push(rendered);
+      onPage?.(rendered, index, selectedPages.length);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+};
+
+/**
+ * Renders the selected pages with the given quality preset. Pages come back as object URLs,
+ * so callers own them and should revoke them once the slides are discarded.
+ * Rendering happens in a worker where OffscreenCanvas is available, otherwise on the main thread.
+ */
+export const convertPdfToImages = async (file: File, options: ConvertOptions = {}): Promise<RenderedPage[]> => {
+  const settings = { ...options, preset: options.preset ?? RENDER_PRESETS[DEFAULT_RENDER_QUALITY] };
+  if (!canRenderInWorker()) {
+    return renderOnMainThread(file, settings);
+  }
+
+  let delivered = 0;
+  try {
+    return await renderInWorker(file, {
+      ...settings,
+      onPage: (page, index, pageCount) => {
+        delivered++;
+        settings.onPage?.(page, index, pageCount);
+      },
+    });
+  } catch (err) {
+    // Pages already handed out can't be taken back, so only a worker that never got going is retried
+    if (settings.signal?.aborted || delivered > 0) throw err;
+    console.warn("Rendering in a worker failed, falling back to the main thread", err);
+    return renderOnMainThread(file, settings);
+  }
+};
+
+// --- Native text layer extraction ---
+
+interface TextLine {
+  text: string;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  baseline: number;
+  fontHeight: number; // Device pixels
+  bold: boolean;
+  italic: boolean;
+  fontFamily?: string;
+  color: string;
+}
+
+type Rgb = [number, number, number];
+
+const toHex = ([r, g, b]: Rgb): string =>
+  '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const colorDistance = (a: Rgb, b: Rgb): number =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+// Buckets pixels by a coarse 4-bit-per-channel key and returns the buckets, most frequent first.
+const colorHistogram = (data: Uint8ClampedArray): { color: Rgb; count: number }[] => {
+  const buckets = new Map<number, { sum: Rgb; count: number }>();
+  for (let p = 0; p < data.length; p += 4) {
+    if (data[p + 3] === 0) continue;
+    const key = ((data[p] >> 4) << 8) | ((data[p + 1] >> 4) << 4) | (data[p + 2] >> 4);
+    const bucket = buckets.get(key) ?? { sum: [0, 0, 0], count: 0 };
+    bucket.sum[0] += data[p];
+    bucket.sum[1] += data[p + 1];
+    bucket.sum[2] += data[p + 2];
+    bucket.count++;
+    buckets.set(key, bucket);
+  }
+  return [...buckets.values()]
+    .map(({ sum, count }) => ({ color: sum.map(c => c / count) as Rgb, count }))
+    .sort((a, b) => b.count - a.count);
+};
+
+// The text layer carries no fill color, so we read it back from the rendered page:
+// the dominant color inside the run's box is the background, and the most frequent
+// color clearly distinct from it is the glyph color.
+const sampleTextColor = (ctx: CanvasRenderingContext2D, left: number, top: number, right: number, bottom: number): string => {
+  const x = Math.max(0, Math.floor(left));
+  const y = Math.max(0, Math.floor(top));
+  const w = Math.min(ctx.canvas.width - x, Math.ceil(right - left));
+  const h = Math.min(ctx.canvas.height - y, Math.ceil(bottom - top));
+  if (w <= 0 || h <= 0) return '#000000';
+
+  const histogram = colorHistogram(ctx.getImageData(x, y, w, h).data);
+  if (histogram.length === 0) return '#000000';
+
+  const background = histogram[0].color;
+  const glyph = histogram.find(entry => colorDistance(entry.color, background) > 80);
+  if (glyph) return toHex(glyph.color);
+
+  // Nothing stands out (e.g. very thin text); fall back to whichever of black/white contrasts.
+  const luminance = 0.299 * background[0] + 0.587 * background[1] + 0.114 * background[2];
+  return luminance > 128 ? '#000000' : '#FFFFFF';
+};
+
+// Samples thin strips along the page edges, which are almost always plain background.
+const samplePageBackground = (ctx: CanvasRenderingContext2D): string => {
+  const { width, height } = ctx.canvas;
+  const strip = 4;
+  const edges = [
+    ctx.getImageData(0, 0, width, strip).data,
+    ctx.getImageData(0, height - strip, width, strip).data,
+    ctx.getImageData(0, 0, strip, height).data,
+    ctx.getImageData(width - strip, 0, strip, height).data,
+  ];
+  const merged = new Uint8ClampedArray(edges.reduce((n, e) => n + e.length, 0));
+  let offset = 0;
+  for (const edge of edges) {
+    merged.set(edge, offset);
+    offset += edge.length;
+  }
+  const histogram = colorHistogram(merged);
+  return histogram.length > 0 ? toHex(histogram[0].color) : '#FFFFFF';
+};
+
+// pdf.js only exposes the loaded font name (e.g. "ABCDEF+Helvetica-BoldOblique") and, once
+// the page has been rendered, the font object's own bold/italic flags.
+// "ABCDEF+TimesNewRomanPS-BoldMT" -> "Times New Roman". Undefined when the PDF only has an internal id.
+const toFontFamily = (name: string | undefined): string | undefined => {
+  if (!name) return undefined;
+  const base = name.replace(/^[A-Z]{6}\+/, '').split(/[-,]/)[0].replace(/(PSMT|PS|MT)$/, '');
+  const family = base.replace(/([a-z])([A-Z])/g, '$1 $2').trim();
+  return family || undefined;
+};
+
+const getFontStyle = (page: PDFPageProxy, fontName: string): { bold: boolean; italic: boolean; fontFamily?: string } => {
+  const font = page.commonObjs.has(fontName) ? page.commonObjs.get(fontName) : null;
+  const name: string = font?.name ?? fontName;
+  return {
+    bold: Boolean(font?.bold || font?.black) || /bold|black|heavy|semibold|demi/i.test(name),
+    italic: Boolean(font?.italic) || /italic|oblique/i.test(name),
+    fontFamily: toFontFamily(font?.name),
+  };
+};
+
+// Whether a text run starts within the viewport, i.e. on the part of the page being read
+const isInViewport = (item: TextItem, viewport: PageViewport): boolean => {
+  const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+  return x >= 0 && x <= viewport.width && y >= 0 && y <= viewport.height;
+};
+
+const collectTextLines = (
+  page: PDFPageProxy,
+  items: TextItem[],
+  styles: Record<string, TextStyle>,
+  viewport: PageViewport,
+  ctx: CanvasRenderingContext2D
+): TextLine[] => {
+  const lines: TextLine[] = [];
+  let current: TextLine | null = null;
+
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+
+    const tx = pdfjsLib.Util.transform(viewport.transform, item.transform);
+    const fontHeight = Math.hypot(tx[2], tx[3]);
+    if (fontHeight <= 0) continue;
+
+    const style = styles[item.fontName];
+    const ascent = style?.ascent ? style.ascent : 0.8;
+    const descent = style?.descent ? style.descent : -0.2;
+    const left = tx[4];
+    const baseline = tx[5];
+    const right = left + item.width * viewport.scale;
+    const { bold, italic, fontFamily } = getFontStyle(page, item.fontName);
+
+    // Continue the current line when the run sits on the same baseline right after it.
+    if (
+      current &&
+      Math.abs(current.baseline - baseline) < current.fontHeight * 0.3 &&
+      left >= current.right - current.fontHeight &&
+      left <= current.right + current.fontHeight * 3
+    ) {
+      const gap = left - current.right;
+      current.text += (gap > current.fontHeight * 0.2 && !current.text.endsWith(' ') ? ' ' : '') + item.str;
+      current.right = Math.max(current.right, right);
+      current.fontHeight = Math.max(current.fontHeight, fontHeight);
+      current.top = Math.min(current.top, baseline - fontHeight * ascent);
+      current.bottom = Math.max(current.bottom, baseline - fontHeight * descent);
+      current.bold = current.bold && bold;
+      current.italic = current.italic && italic;
+      continue;
+    }
+
+    current = {
+      text: item.str,
+      left,
+      right,
+      top: baseline - fontHeight * ascent,
+      bottom: baseline - fontHeight * descent,
+      baseline,
+      fontHeight,
+      bold,
+      italic,
+      fontFamily,
+      color: '',
     };
-    
-    await page.render(renderContext).promise;
-    
-    // Export to base64 with maximum quality (1.0)
-    // JPEG at 1.0 is very high quality and more efficient than PNG for photos/gradients.
-    const base64Data = canvas.toDataURL('image/jpeg', 1.0);
-    images.push(base64Data);
-  }
-  
-  return images;
-};
\ No newline at end of file
+    lines.push(current);
+  }
+
+  for (const line of lines) {
+    line.text = line.text.trim();
+    line.color = sampleTextColor(ctx, line.left, line.top, line.right, line.bottom);
+  }
+
+  return lines;
+};
+
+// Stacks consecutive lines into one block when they share a style and sit directly below each other.
+const groupLinesIntoBlocks = (lines: TextLine[]): TextLine[][] => {
+  const sorted = [...lines].sort((a, b) => a.top - b.top || a.left - b.left);
+  const blocks: TextLine[][] = [];
+
+  for (const line of sorted) {
+    const block = blocks.find(candidate => {
+      const last = candidate[candidate.length - 1];
+      const left = Math.min(...candidate.map(l => l.left));
+      const right = Math.max(...candidate.map(l => l.right));
+      return (
+        last.bold === line.bold &&
+        last.italic === line.italic &&
+        last.color === line.color &&
+        Math.abs(last.fontHeight - line.fontHeight) <= last.fontHeight * 0.15 &&
+        line.top - last.bottom >= -last.fontHeight * 0.3 &&
+        line.top - last.bottom < last.fontHeight * 0.8 &&
+        line.left < right &&
+        line.right > left
+      );
+    });
+
+    if (block) {
+      block.push(line);
+    } else {
+      blocks.push([line]);
+    }
+  }
+
+  return blocks;
+};
+
+// Infers paragraph alignment from how the line edges line up. Single lines only count as
+// centered when they sit on the page's vertical axis.
+const detectAlignment = (lines: TextLine[], pageWidth: number): SlideTextBlock['align'] => {
+  const tolerance = lines[0].fontHeight * 0.5;
+  const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+  const lefts = lines.map(l => l.left);
+  const rights = lines.map(l => l.right);
+  const centers = lines.map(l => (l.left + l.right) / 2);
+
+  if (lines.length === 1) {
+    return Math.abs(centers[0] - pageWidth / 2) < pageWidth * 0.02 ? 'center' : 'left';
+  }
+  if (spread(lefts) <= tolerance) return 'left';
+  if (spread(centers) <= tolerance) return 'center';
+  if (spread(rights) <= tolerance) return 'right';
+  return 'left';
+};
+
+const toTextBlock = (lines: TextLine[], viewport: PageViewport): SlideTextBlock => {
+  const pct = (value: number, total: number) => Math.min(100, Math.max(0, (value / total) * 100));
+  const fontHeight = Math.max(...lines.map(l => l.fontHeight));
+  return {
+    text: lines.map(l => l.text).join('\n'),
+    boundingBox: [
+      pct(Math.min(...lines.map(l => l.top)), viewport.height),
+      pct(Math.min(...lines.map(l => l.left)), viewport.width),
+      pct(Math.max(...lines.map(l => l.bottom)), viewport.height),
+      pct(Math.max(...lines.map(l => l.right)), viewport.width),
+    ],
+    fontSize: Math.round((fontHeight / viewport.width) * SLIDE_WIDTH_PT * 10) / 10,
+    bold: lines[0].bold,
+    italic: lines[0].italic,
+    fontFamily: lines[0].fontFamily,
+    color: lines[0].color,
+    align: detectAlignment(lines, viewport.width),
+  };
+};
+
+// Operator arguments are untyped; a transform is six finite numbers, in an array or a typed array
+const toMatrix = (value: unknown): number[] | undefined => {
+  if (!Array.isArray(value) && !ArrayBuffer.isView(value)) return undefined;
+  const matrix = Array.from(value as ArrayLike<unknown>);
+  return matrix.length === 6 && matrix.every(v => typeof v === 'number' && Number.isFinite(v)) ? (matrix as number[]) : undefined;
+};
+
+// Walks the operator list tracking the current transform, recording where each raster image lands.
+// Vector drawings are not detected; they stay part of the page render only.
+const detectImageFigures = (fnArray: number[], argsArray: unknown[][], viewport: PageViewport): SlideFigure[] => {
+  const { OPS, Util } = pdfjsLib;
+  const figures: SlideFigure[] = [];
+  const stack: number[][] = [];
+  let ctm = [1, 0, 0, 1, 0, 0];
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const args = argsArray[i];
+    switch (fnArray[i]) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+        ctm = stack.pop() ?? ctm;
+        break;
+      case OPS.transform: {
+        const matrix = toMatrix(args);
+        if (matrix) ctm = Util.transform(ctm, matrix);
+        break;
+      }
+      case OPS.paintFormXObjectBegin: {
+        stack.push(ctm);
+        const matrix = toMatrix(args?.[0]);
+        if (matrix) ctm = Util.transform(ctm, matrix);
+        break;
+      }
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() ?? ctm;
+        break;
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject: {
+        // Images are painted into the unit square of the current transform.
+        const m = Util.transform(viewport.transform, ctm);
+        const xs = [m[4], m[0] + m[4], m[2] + m[4], m[0] + m[2] + m[4]];
+        const ys = [m[5], m[1] + m[5], m[3] + m[5], m[1] + m[3] + m[5]];
+        const clamp = (v: number) => Math.min(100, Math.max(0, v));
+        const box: [number, number, number, number] = [
+          clamp((Math.min(...ys) / viewport.height) * 100),
+          clamp((Math.min(...xs) / viewport.width) * 100),
+          clamp((Math.max(...ys) / viewport.height) * 100),
+          clamp((Math.max(...xs) / viewport.width) * 100),
+        ];
+        const w = box[3] - box[1];
+        const h = box[2] - box[0];
+
+        // Skip icons/specks and full-page backgrounds (those are already in the page render).
+        if (w < 3 || h < 3 || (w > 90 && h > 90)) break;
+        figures.push({ boundingBox: box, description: 'Embedded image' });
+        break;
+      }
+    }
+  }
+
+  return figures;
+};
+
+// Turns a block's lines into paragraphs: a leading bullet glyph or number ("1.", "a)") starts a
+// new list item, other lines continue the previous one. Text before any marker is a plain paragraph.
+const BULLET_PATTERN = /^[•◦▪▫■□●○‣⁃\-–—*]\s*/;
+const NUMBER_PATTERN = /^(\d{1,2}|[a-z])[.)]\s+/;
+const toParagraphs = (block: SlideTextBlock): SlideParagraph[] => {
+  const paragraphs: SlideParagraph[] = [];
+  for (const line of block.text.split('\n')) {
+    const list = BULLET_PATTERN.test(line) ? 'bullet' : NUMBER_PATTERN.test(line) ? 'number' : undefined;
+    if (list || paragraphs.length === 0) {
+      const text = line.replace(list === 'number' ? NUMBER_PATTERN : BULLET_PATTERN, '');
+      paragraphs.push({ runs: [{ text, ...(block.bold ? { bold: true } : {}), ...(block.italic ? { italic: true } : {}) }], list: list ?? 'none' });
+    } else {
+      paragraphs[paragraphs.length - 1].runs[0].text += ` ${line}`;
+    }
+  }
+  return paragraphs.filter(paragraph => paragraph.runs[0].text.length > 0);
+};
+
+const buildSlideContent = (blocks: SlideTextBlock[], figures: SlideFigure[], backgroundColor: string): SlideContent => {
+  // The title is the largest text in the upper half of the page.
+  const titleCandidates = blocks.filter(b => b.boundingBox[0] < 50);
+  const title = titleCandidates.reduce<SlideTextBlock | null>(
+    (best, b) => (!best || b.fontSize > best.fontSize ? b : best),
+    null
+  );
+  const bodyBlocks = blocks.filter(b => b !== title);
+  const blockParagraphs = new Map(bodyBlocks.map(block => [block, toParagraphs(block)]));
+  const paragraphs = bodyBlocks.flatMap(block => blockParagraphs.get(block)!);
+  // Blocks with list items keep them as paragraphs, which turns the markers into real bullets;
+  // other blocks keep their text with its line breaks
+  const textBlocks = blocks.map(block => {
+    if (block === title) return { ...block, title: true };
+    const own = blockParagraphs.get(block);
+    return own?.some(paragraph => paragraph.list !== 'none') ? { ...block, paragraphs: own } : block;
+  });
+
+  // The main text color is the one covering the most characters.
+  const colorWeights = new Map<string, number>();
+  for (const b of blocks) {
+    if (b.color) colorWeights.set(b.color, (colorWeights.get(b.color) ?? 0) + b.text.length);
+  }
+  const textColor = [...colorWeights.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  let layoutType: SlideContent['layoutType'] = 'TITLE_AND_CONTENT';
+  if (blocks.length === 0) layoutType = 'BLANK';
+  else if (bodyBlocks.length === 0) layoutType = 'TITLE_ONLY';
+
+  return {
+    title: title ? title.text.replace(/\n/g, ' ') : '',
+    content: paragraphs.map(paragraphText),
+    paragraphs,
+    layoutType,
+    backgroundColor,
+    textColor,
+    figures,
+    textBlocks,
+  };
+};
+
+/**
+ * Builds slides straight from the PDF's own text layer, without any AI call.
+ * Works for born-digital PDFs (Keynote, Google Slides, PowerPoint exports); scanned
+ * PDFs have no text layer and come back as BLANK slides with just the page image.
+ */
+export const extractTextLayerSlides = async (
+  file: File,
+  pageNumbers?: number[],
+  preset: RenderPreset = RENDER_PRESETS[DEFAULT_RENDER_QUALITY],
+  { signal, onSlide }: { signal?: AbortSignal; onSlide?: (slide: ProcessedSlide) => void } = {}
+): Promise<ProcessedSlide[]> => {
+  const pdf = await openPdf(file);
+
+  const slides: ProcessedSlide[] = [];
+
+  try {
+    for (const i of resolvePageNumbers(pageNumbers, pdf.numPages)) {
+      signal?.throwIfAborted();
+      const page = await pdf.getPage(i);
+      const { notes: sourceNotes, slideBox } = await readPageNotes(page);
+
+      // Render first: this also loads the fonts into commonObjs, which getFontStyle relies on.
+      const { canvas, viewport } = await renderPage(page, i, preset.scale, slideBox);
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        throw new Error(`Could not get canvas context for page ${i}`);
+      }
+
+      const textContent = await page.getTextContent();
+      // On a notes page the text below the slide is its notes, not slide content
+      const items = textContent.items
+        .filter((item): item is TextItem => 'str' in item)
+        .filter(item => !slideBox || isInViewport(item, viewport));
+      const lines = collectTextLines(page, items, textContent.styles, viewport, ctx);
+      const blocks = groupLinesIntoBlocks(lines)
+        .map(block => toTextBlock(block, viewport))
+        .sort((a, b) => a.boundingBox[0] - b.boundingBox[0] || a.boundingBox[1] - b.boundingBox[1]);
+
+      const operatorList = await page.getOperatorList();
+      const figures = detectImageFigures(operatorList.fnArray, operatorList.argsArray, viewport);
+
+      const analysis = buildSlideContent(blocks, figures, samplePageBackground(ctx));
+      const slide: ProcessedSlide = {
+        originalImage: await encodePageImage(canvas, preset),
+        analysis,
+        status: 'done',
+        pageNumber: i,
+        pageSize: getPageSize(page, slideBox),
+        ...(sourceNotes ? { sourceNotes } : {}),
+      };
+      slides.push(slide);
+      onSlide?.(slide);
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return slides;
+};
@@ -0,0 +1,8 @@
+import * as pdfjsLib from 'pdfjs-dist';
+// Bundled by Vite from the installed pdfjs-dist, so the worker always matches the library
+// version and loads without network access. Imported for its side effect by the browser
+// entry points; the CLI doesn't need it.
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+export const PDFJS_WORKER_SRC = pdfWorkerUrl;
+pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_SRC;
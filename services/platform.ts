@@ -0,0 +1,61 @@
+// The few things conversion needs from its host environment: canvases, decoding images and
+// storing rendered pages. The browser implementation is the default; the CLI installs one
+// backed by @napi-rs/canvas (see cli/nodePlatform.ts) before converting anything.
+
+export type LoadedImage = CanvasImageSource & { width: number; height: number };
+
+export interface Platform {
+  createCanvas: (width: number, height: number) => HTMLCanvasElement;
+  // Accepts whatever encodeCanvas returns, plus data URLs
+  loadImage: (src: string) => Promise<LoadedImage>;
+  // Turns a finished canvas into a page image reference and releases the canvas
+  encodeCanvas: (canvas: HTMLCanvasElement, format: string, quality?: number) => Promise<string>;
+  // Extra pdf.js getDocument parameters, e.g. where to find standard fonts and CMaps
+  pdfDocumentOptions?: { standardFontDataUrl?: string; cMapUrl?: string };
+}
+
+const IMAGE_LOAD_TIMEOUT_MS = 10000;
+
+export const browserPlatform: Platform = {
+  createCanvas: (width, height) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  },
+
+  loadImage: src =>
+    new Promise((resolve, reject) => {
+      const img = new Image();
+      // Prevents hanging if the image never loads
+      const timeoutId = setTimeout(() => reject(new Error('Image load timed out')), IMAGE_LOAD_TIMEOUT_MS);
+      img.onload = () => {
+        clearTimeout(timeoutId);
+        resolve(img);
+      };
+      img.onerror = () => {
+        clearTimeout(timeoutId);
+        reject(new Error('Failed to load image'));
+      };
+      img.src = src;
+    }),
+
+  // Object URLs keep the pixels in a Blob outside the JS heap; see pageImages.ts
+  encodeCanvas: async (canvas, format, quality) => {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, format, quality));
+    canvas.width = 0;
+    canvas.height = 0;
+    if (!blob) {
+      throw new Error('Could not encode page image');
+    }
+    return URL.createObjectURL(blob);
+  },
+};
+
+let current: Platform = browserPlatform;
+
+export const getPlatform = (): Platform => current;
+
+export const setPlatform = (platform: Platform) => {
+  current = platform;
+};
@@ -0,0 +1,70 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { nodePlatform } from '../cli/nodePlatform';
+import { setPlatform } from './platform';
+import { cropImage } from './pptBuilder';
+import { normalizeBoundingBox } from './slideValidation';
+
+type Box = [number, number, number, number];
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+
+// A 100x100 page, red in its top-left quarter and blue elsewhere
+let page: string;
+
+beforeAll(() => {
+  setPlatform(nodePlatform);
+  const canvas = createCanvas(100, 100);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#0000FF';
+  ctx.fillRect(0, 0, 100, 100);
+  ctx.fillStyle = '#FF0000';
+  ctx.fillRect(0, 0, 50, 50);
+  page = canvas.toDataURL('image/png');
+});
+
+// Size of the crop and the color at its center
+const inspect = async (dataUrl: string) => {
+  const image = await loadImage(dataUrl);
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  const center = ctx.getImageData(Math.floor(image.width / 2), Math.floor(image.height / 2), 1, 1).data;
+  return { width: image.width, height: image.height, center: Array.from(center) };
+};
+
+describe('cropImage', () => {
+  it('crops a percentage box as a PNG', async () => {
+    const crop = await cropImage(page, [0, 0, 50, 50]);
+    expect(crop).toMatch(/^data:image\/png;base64,/);
+    expect(await inspect(crop)).toEqual({ width: 50, height: 50, center: RED });
+  });
+
+  it.each<[string, Box]>([
+    ['empty', [10, 10, 10, 20]],
+    ['zero-width', [10, 20, 30, 20]],
+    ['inverted', [40, 40, 20, 20]],
+  ])('rejects a %s box', async (_, box) => {
+    await expect(cropImage(page, box)).rejects.toThrow('Invalid bounding box');
+  });
+
+  it('rejects a box that lies entirely off the page', async () => {
+    await expect(cropImage(page, [110, 110, 120, 120])).rejects.toThrow('Invalid calculated crop dimensions');
+  });
+
+  it('clamps a box that runs off the page to the page edge', async () => {
+    expect(await inspect(await cropImage(page, [50, 50, 150, 150]))).toEqual({ width: 50, height: 50, center: BLUE });
+  });
+
+  it('clamps a 0-1000 box that was never rescaled to the whole page', async () => {
+    expect(await inspect(await cropImage(page, [0, 0, 500, 500]))).toMatchObject({ width: 100, height: 100 });
+  });
+
+  it('crops the intended region of a 0-1000 box once validation has rescaled it', async () => {
+    const warnings: string[] = [];
+    const box = normalizeBoundingBox([0, 0, 500, 500], 'Figure 1', warnings)!;
+    expect(warnings).toEqual(['Figure 1: bounding box looked like a 0-1000 scale, rescaled.']);
+    expect(await inspect(await cropImage(page, box))).toEqual({ width: 50, height: 50, center: RED });
+  });
+});
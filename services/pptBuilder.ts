@@ -1,220 +1,344 @@
 import PptxGenJS from 'pptxgenjs';
-import { ProcessedSlide, SlideContent } from '../types';
+import { DocImageSource, DocMaster, DocRect, DocShape, DocTextRun, DocTextStyle, FigureChart, FigureTable, ProcessedSlide, RenderPreset, SlideDocument } from '../types';
+import { releaseCanvas, toDataUrl } from './pageImages';
+import { getPlatform } from './platform';
+import { DEFAULT_RENDER_QUALITY, RENDER_PRESETS } from './renderQuality';
 
-// Helper to crop an image from base64 string
-const cropImage = (base64Image: string, box: [number, number, number, number]): Promise<string> => {
-  return new Promise((resolve, reject) => {
+// Helper to crop an image from base64 string, as a PNG data URL. Also used by the other exporters.
+export const cropImage = async (base64Image: string, box: [number, number, number, number]): Promise<string> => {
     // 1. Validate box inputs immediately to fail fast
     const [ymin, xmin, ymax, xmax] = box;
     if (xmax <= xmin || ymax <= ymin) {
-        reject(new Error(`Invalid bounding box: [${box.join(', ')}]`));
-        return;
+        throw new Error(`Invalid bounding box: [${box.join(', ')}]`);
     }
 
-    const img = new Image();
+    // 2. The platform's loader times out if the image never loads
+    const img = await getPlatform().loadImage(base64Image);
+
+    const width = img.width;
+    const height = img.height;
+
+    // Convert percentages to pixels
+    const cropX = (xmin / 100) * width;
+    const cropY = (ymin / 100) * height;
+    const cropW = ((xmax - xmin) / 100) * width;
+    const cropH = ((ymax - ymin) / 100) * height;
+
+    // Add a small buffer/padding to avoid cutting off edges if detection is tight
+    // but ensure we don't go out of bounds (Clamping)
+    const safeX = Math.max(0, cropX);
+    const safeY = Math.max(0, cropY);
     
-    // 2. Add timeout to prevent hanging if image never loads
-    const timeoutId = setTimeout(() => {
-        reject(new Error("Image load timed out in cropImage"));
-    }, 10000);
+    // Ensure width/height doesn't exceed image bounds from the start point
+    const safeW = Math.min(width - safeX, cropW);
+    const safeH = Math.min(height - safeY, cropH);
+
+    // 3. Validate calculated dimensions
+    if (safeW <= 0 || safeH <= 0) {
+        throw new Error(`Invalid calculated crop dimensions: ${safeW}x${safeH}`);
+    }
+
+    const canvas = getPlatform().createCanvas(safeW, safeH);
+    try {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Could not get canvas context');
+      }
+
+      ctx.drawImage(
+        img, 
+        safeX, safeY, safeW, safeH, // Source
+        0, 0, safeW, safeH          // Destination
+      );
+
+      // Return as base64
+      return canvas.toDataURL('image/png');
+    } finally {
+      // A deck crops many figures; don't keep their backing stores alive until GC
+      releaseCanvas(canvas);
+    }
+};
+
+// Paints over each text region of the page render with the color surrounding it, so the
+// editable text boxes placed on top don't sit over a second, baked-in copy of the text.
+// Re-encoded like the page renders themselves, so a masked page costs no more than an unmasked one.
+const maskTextRegions = async (
+  base64Image: string,
+  boxes: [number, number, number, number][],
+  { format, quality }: ImageEncoding
+): Promise<string> => {
+    const img = await getPlatform().loadImage(base64Image);
+
+    const canvas = getPlatform().createCanvas(img.width, img.height);
+    try {
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        throw new Error('Could not get canvas context');
+      }
+      ctx.drawImage(img, 0, 0);
+
+      for (const [ymin, xmin, ymax, xmax] of boxes) {
+          // Pad a little: detected boxes tend to hug the glyphs and miss descenders/antialiasing
+          const pad = 0.5;
+          const x0 = Math.max(0, Math.floor(((xmin - pad) / 100) * img.width));
+          const y0 = Math.max(0, Math.floor(((ymin - pad) / 100) * img.height));
+          const x1 = Math.min(img.width, Math.ceil(((xmax + pad) / 100) * img.width));
+          const y1 = Math.min(img.height, Math.ceil(((ymax + pad) / 100) * img.height));
+          if (x1 <= x0 || y1 <= y0) continue;
+
+          ctx.fillStyle = sampleSurroundingColor(ctx, x0, y0, x1, y1);
+          ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
+      }
+
+      return canvas.toDataURL(format, quality);
+    } finally {
+      releaseCanvas(canvas);
+    }
+};
+
+// Most common color in a thin ring just outside the rectangle, i.e. the local background.
+const sampleSurroundingColor = (ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number): string => {
+  const ring = 3;
+  const { width, height } = ctx.canvas;
+  const strips = [
+    [x0, Math.max(0, y0 - ring), x1 - x0, Math.min(ring, y0)],
+    [x0, y1, x1 - x0, Math.min(ring, height - y1)],
+    [Math.max(0, x0 - ring), y0, Math.min(ring, x0), y1 - y0],
+    [x1, y0, Math.min(ring, width - x1), y1 - y0]
+  ].filter(([, , w, h]) => w > 0 && h > 0);
+
+  const counts = new Map<number, { r: number; g: number; b: number; count: number }>();
+  for (const [x, y, w, h] of strips) {
+      const data = ctx.getImageData(x, y, w, h).data;
+      for (let p = 0; p < data.length; p += 4) {
+          const key = ((data[p] >> 4) << 8) | ((data[p + 1] >> 4) << 4) | (data[p + 2] >> 4);
+          const bucket = counts.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+          bucket.r += data[p];
+          bucket.g += data[p + 1];
+          bucket.b += data[p + 2];
+          bucket.count++;
+          counts.set(key, bucket);
+      }
+  }
+
+  const best = [...counts.values()].sort((a, b) => b.count - a.count)[0];
+  if (!best) return '#FFFFFF';
+  return `rgb(${Math.round(best.r / best.count)}, ${Math.round(best.g / best.count)}, ${Math.round(best.b / best.count)})`;
+};
+
+// --- pptxgenjs backend ---
+
+const CUSTOM_LAYOUT_NAME = 'SLIDESHIFTER_SOURCE';
+
+const textOptions = (style: DocTextStyle): PptxGenJS.TextPropsOptions => ({
+  fontSize: style.fontSize,
+  fontFace: style.fontFace,
+  bold: style.bold,
+  italic: style.italic,
+  color: style.color,
+  align: style.align,
+  valign: style.valign,
+  margin: style.margin,
+  ...(style.autoFit === false ? { fit: 'none' as const } : {}),
+});
 
-    img.onload = () => {
-      clearTimeout(timeoutId);
+// A single plain run is passed as a string, so newlines inside it stay line breaks within one paragraph
+const textContent = (runs: DocTextRun[]): string | PptxGenJS.TextProps[] => {
+  if (runs.length === 1 && Object.keys(runs[0]).length === 1) return runs[0].text;
+  return runs.map(({ text, breakLine, bullet, indentLevel, bold, italic, url }) => ({
+    text,
+    options: {
+      ...(breakLine ? { breakLine } : {}),
+      ...(bullet ? { bullet: bullet === 'number' ? { type: 'number' as const } : true } : {}),
+      ...(indentLevel ? { indentLevel } : {}),
+      ...(bold ? { bold } : {}),
+      ...(italic ? { italic } : {}),
+      ...(url ? { hyperlink: { url } } : {}),
+    },
+  }));
+};
+
+// pptxgenjs embeds data URLs; anything else is fetched from its path when the file is written
+const imageProps = (src: string) => (src.startsWith('data:') ? { data: src } : { path: src });
+
+// How rewritten page renders are encoded: the format and quality the pages were rendered with
+export type ImageEncoding = Pick<RenderPreset, 'format' | 'quality'>;
+
+// What the document's image references are resolved against
+interface PageImages {
+  slides: ProcessedSlide[];
+  encoding: ImageEncoding;
+}
+
+// Crops and masks happen here, on the page renders the document's image references point to
+const resolveImage = async (source: DocImageSource, { slides, encoding }: PageImages): Promise<string> => {
+  switch (source.kind) {
+    case 'page':
+      // Page renders are object URLs; pptxgenjs embeds data URLs only
+      return toDataUrl(slides[source.slideIndex].originalImage);
+    case 'crop':
+      return cropImage(slides[source.slideIndex].originalImage, source.box);
+    case 'masked':
       try {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          if (!ctx) {
-            throw new Error('Could not get canvas context');
-          }
-
-          const width = img.width;
-          const height = img.height;
-
-          // Convert percentages to pixels
-          const cropX = (xmin / 100) * width;
-          const cropY = (ymin / 100) * height;
-          const cropW = ((xmax - xmin) / 100) * width;
-          const cropH = ((ymax - ymin) / 100) * height;
-
-          // Add a small buffer/padding to avoid cutting off edges if detection is tight
-          // but ensure we don't go out of bounds (Clamping)
-          const safeX = Math.max(0, cropX);
-          const safeY = Math.max(0, cropY);
-          
-          // Ensure width/height doesn't exceed image bounds from the start point
-          const safeW = Math.min(width - safeX, cropW);
-          const safeH = Math.min(height - safeY, cropH);
-
-          // 3. Validate calculated dimensions
-          if (safeW <= 0 || safeH <= 0) {
-              throw new Error(`Invalid calculated crop dimensions: ${safeW}x${safeH}`);
-          }
-
-          canvas.width = safeW;
-          canvas.height = safeH;
-
-          ctx.drawImage(
-            img, 
-            safeX, safeY, safeW, safeH, // Source
-            0, 0, safeW, safeH          // Destination
-          );
-
-          // Return as base64
-          resolve(canvas.toDataURL('image/png'));
-      } catch (e) {
-          reject(e);
+        return await maskTextRegions(slides[source.slideIndex].originalImage, source.boxes, encoding);
+      } catch (err) {
+        // An unmasked background still beats losing the slide; the text just appears twice
+        console.error("Failed to mask text regions, using the original page:", err);
+        return toDataUrl(slides[source.slideIndex].originalImage);
       }
-    };
-    
-    img.onerror = (e) => {
-        clearTimeout(timeoutId);
-        reject(new Error("Failed to load image for cropping"));
-    };
-    
-    img.src = base64Image;
-  });
+    case 'url':
+      return source.url;
+  }
 };
 
-/**
- * Generates a PPTX where each slide is just the full image of the PDF page.
- * Fast conversion, visual fidelity is 100%, but not editable text.
- */
-export const generateImagePptx = async (processedSlides: ProcessedSlide[]): Promise<void> => {
-    const pptx = new PptxGenJS();
-    
-    pptx.author = 'SlideShifter App';
-    pptx.title = 'Converted Presentation (Image Mode)';
-
-    for (const slideItem of processedSlides) {
-        const slide = pptx.addSlide();
-        
-        // Add the original image as a background or full-size image
-        slide.addImage({
-            data: slideItem.originalImage,
-            x: 0,
-            y: 0,
-            w: '100%',
-            h: '100%'
-        });
+// pptxgenjs has no separate column type; bar vs. column is the bar direction
+const CHART_KINDS: Record<FigureChart['type'], { name: 'bar' | 'line' | 'pie'; barDir?: 'bar' | 'col' }> = {
+  bar: { name: 'bar', barDir: 'bar' },
+  column: { name: 'bar', barDir: 'col' },
+  line: { name: 'line' },
+  pie: { name: 'pie' },
+};
+
+// Draws a detected chart as an editable PowerPoint chart in the figure's place.
+const addNativeChart = (slide: PptxGenJS.Slide, chart: FigureChart, rect: DocRect, fgColor: string, altText?: string) => {
+    const kind = CHART_KINDS[chart.type];
+    const series = chart.type === 'pie' ? chart.series.slice(0, 1) : chart.series;
+    const data = series.map(s => ({ name: s.name, labels: chart.categories, values: s.values }));
+
+    slide.addChart(kind.name, data, {
+        ...rect,
+        barDir: kind.barDir,
+        showLegend: series.length > 1 || chart.type === 'pie',
+        legendPos: 'b',
+        legendFontSize: 10,
+        legendColor: fgColor,
+        catAxisLabelColor: fgColor,
+        valAxisLabelColor: fgColor,
+        catAxisLabelFontSize: 10,
+        valAxisLabelFontSize: 10,
+        showPercent: chart.type === 'pie',
+        altText,
+    });
+};
+
+// Draws a detected table as an editable PowerPoint table.
+const addNativeTable = (slide: PptxGenJS.Slide, table: FigureTable, rect: DocRect, fontSize: number, fgColor: string) => {
+    const rows = table.rows.map((row, ri) => row.map(text => ({
+        text,
+        options: table.headerRow && ri === 0 ? { bold: true, fill: { color: 'F1F5F9' } } : {},
+    })));
+
+    slide.addTable(rows, {
+        ...rect,
+        fontSize,
+        color: fgColor,
+        border: { type: 'solid', pt: 0.5, color: 'CBD5E1' },
+        margin: 0.04,
+        valign: 'middle',
+        autoPage: false,
+    });
+};
+
+const defineMaster = async (pptx: PptxGenJS, master: DocMaster, images: PageImages) => {
+  const objects: NonNullable<PptxGenJS.SlideMasterProps['objects']> = [];
+
+  for (const shape of master.shapes) {
+    if (shape.type === 'image') {
+      try {
+        objects.push({ image: { ...imageProps(await resolveImage(shape.source, images)), ...shape.rect, altText: shape.altText } });
+      } catch (err) {
+        // The slides still carry their own copy, so losing it here only affects the master
+        console.error("Failed to add recurring figure to master:", err);
+      }
+    } else if (shape.type === 'text') {
+      objects.push({ text: { text: shape.runs.map(r => r.text).join('\n'), options: { ...shape.rect, ...textOptions(shape.style) } } });
     }
+  }
+  for (const { name, kind, rect, style } of master.placeholders) {
+    objects.push({ placeholder: { options: { name, type: kind, ...rect, ...textOptions(style) }, text: '' } });
+  }
+
+  let slideNumber: PptxGenJS.SlideNumberProps | undefined;
+  if (master.slideNumber) {
+    const { rect, style } = master.slideNumber;
+    slideNumber = { ...rect, fontSize: style.fontSize, fontFace: style.fontFace, color: style.color, align: style.align, margin: style.margin };
+  }
 
-    await pptx.writeFile({ fileName: `Converted_Presentation_Img_${Date.now()}.pptx` });
+  pptx.defineSlideMaster({ title: master.name, background: { color: master.background }, objects, slideNumber });
+};
+
+const addShape = async (slide: PptxGenJS.Slide, shape: DocShape, images: PageImages) => {
+  switch (shape.type) {
+    case 'text':
+      slide.addText(textContent(shape.runs), { ...shape.rect, ...textOptions(shape.style) });
+      break;
+    case 'placeholder':
+      slide.addText(textContent(shape.runs), { placeholder: shape.name });
+      break;
+    case 'image':
+      slide.addImage({ ...imageProps(await resolveImage(shape.source, images)), ...shape.rect, altText: shape.altText });
+      break;
+    case 'chart':
+      addNativeChart(slide, shape.chart, shape.rect, shape.color, shape.altText);
+      break;
+    case 'table':
+      addNativeTable(slide, shape.table, shape.rect, shape.fontSize, shape.color);
+      break;
+  }
 };
 
 /**
- * Generates a PPTX using AI analysis to create editable text and extracted figures.
+ * Writes a SlideDocument (see slideDocument.ts) as a pptx. `slides` are the ones the document
+ * was built from; its image references are resolved against their page renders, and pages
+ * that have to be redrawn are encoded with `encoding`.
  */
-export const generatePptx = async (processedSlides: ProcessedSlide[]): Promise<void> => {
+export const renderPptx = async (
+  doc: SlideDocument,
+  slides: ProcessedSlide[],
+  encoding: ImageEncoding = RENDER_PRESETS[DEFAULT_RENDER_QUALITY]
+): Promise<Blob> => {
+  const images: PageImages = { slides, encoding };
   const pptx = new PptxGenJS();
-  
-  // Set metadata
-  pptx.author = 'SlideShifter App';
-  pptx.company = 'Made with Gemini';
-  pptx.title = 'Converted Presentation';
 
-  // We iterate sequentially to handle async image processing
-  for (const slideItem of processedSlides) {
-    if (!slideItem.analysis) continue;
+  pptx.author = 'SlideShifter App';
+  if (doc.company) pptx.company = doc.company;
+  pptx.title = doc.title;
 
-    const slideData = slideItem.analysis;
-    const slide = pptx.addSlide();
-    
-    // Apply Colors
-    if (slideData.backgroundColor) {
-      slide.background = { color: slideData.backgroundColor.replace('#', '') };
-    }
-    const fgColor = slideData.textColor ? slideData.textColor.replace('#', '') : '000000';
-
-    // Add Title
-    if (slideData.title) {
-      slide.addText(slideData.title, { 
-        x: 0.5, y: 0.5, w: '90%', h: 1, 
-        fontSize: 32, 
-        bold: true, 
-        color: fgColor,
-        align: 'center' 
-      });
-    }
+  pptx.defineLayout({ name: CUSTOM_LAYOUT_NAME, width: doc.width, height: doc.height });
+  pptx.layout = CUSTOM_LAYOUT_NAME;
+  if (doc.headingFont || doc.bodyFont) {
+    pptx.theme = { headFontFace: doc.headingFont, bodyFontFace: doc.bodyFont };
+  }
 
-    // Add Content Text
-    let textY = 1.8;
-    const textH = '70%';
-    const textW = '90%';
-    const textX = 0.5;
+  for (const master of doc.masters) {
+    await defineMaster(pptx, master, images);
+  }
 
-    // Logic to avoid placing text on top of figures if possible
-    // (Simple implementation: Text layout remains standard, figures added absolutely)
-    
-    if (slideData.layoutType === 'TWO_COLUMN') {
-      const midPoint = Math.ceil(slideData.content.length / 2);
-      const leftCol = slideData.content.slice(0, midPoint);
-      const rightCol = slideData.content.slice(midPoint);
-
-      if (leftCol.length > 0) {
-        slide.addText(leftCol.map(t => ({ text: t, options: { breakLine: true } })), {
-          x: 0.5, y: textY, w: 4.2, h: textH,
-          fontSize: 18, color: fgColor, bullet: true
-        });
-      }
-      if (rightCol.length > 0) {
-        slide.addText(rightCol.map(t => ({ text: t, options: { breakLine: true } })), {
-          x: 5.0, y: textY, w: 4.2, h: textH,
-          fontSize: 18, color: fgColor, bullet: true
-        });
-      }
+  // Sequential, since images are cropped and encoded one at a time
+  for (const docSlide of doc.slides) {
+    const slide = pptx.addSlide(docSlide.master ? { masterName: docSlide.master } : undefined);
+    if (docSlide.background) {
+      slide.background = { color: docSlide.background };
+    }
 
-    } else if (slideData.layoutType === 'SECTION_HEADER') {
-      if (slideData.content.length > 0) {
-        slide.addText(slideData.content.join('\n'), {
-           x: 1, y: 2.5, w: '80%', h: 3,
-           fontSize: 24, align: 'center', color: fgColor
-        });
+    for (const shape of docSlide.shapes) {
+      // A missing page render loses the whole slide's content, so that one is not swallowed
+      if (shape.type === 'image' && shape.source.kind === 'page') {
+        await addShape(slide, shape, images);
+        continue;
       }
-    } else {
-      // Default
-      if (slideData.content.length > 0) {
-        slide.addText(slideData.content.map(t => ({ text: t, options: { breakLine: true } })), {
-          x: textX, y: textY, w: textW, h: textH,
-          fontSize: 18, color: fgColor, bullet: true, align: 'left', valign: 'top'
-        });
+      try {
+        await addShape(slide, shape, images);
+      } catch (err) {
+        console.error("Failed to add figure to slide:", err);
+        // Continue with other figures/slides, don't crash the whole process
       }
     }
 
-    // Processing and Adding Figures
-    if (slideData.figures && slideData.figures.length > 0) {
-        for (const figure of slideData.figures) {
-            try {
-                // Validation before attempt
-                const [ymin, xmin, ymax, xmax] = figure.boundingBox;
-                
-                // Skip clearly invalid boxes
-                if (xmax <= xmin || ymax <= ymin) {
-                   console.warn("Skipping invalid figure bounding box:", figure.boundingBox);
-                   continue;
-                }
-
-                // Crop the figure from the original slide image
-                const croppedImgData = await cropImage(slideItem.originalImage, figure.boundingBox);
-                
-                slide.addImage({
-                    data: croppedImgData,
-                    x: `${xmin}%`,
-                    y: `${ymin}%`,
-                    w: `${xmax - xmin}%`,
-                    h: `${ymax - ymin}%`
-                });
-            } catch (err) {
-                console.error("Failed to add figure to slide:", err);
-                // Continue with other figures/slides, don't crash the whole process
-            }
-        }
-    }
-
-    // Add Notes
-    if (slideData.notes) {
-      slide.addNotes(slideData.notes);
+    if (docSlide.notes) {
+      slide.addNotes(docSlide.notes);
     }
   }
 
-  await pptx.writeFile({ fileName: `Converted_Presentation_${Date.now()}.pptx` });
-};
\ No newline at end of file
+  return await pptx.write({ outputType: 'blob' }) as Blob;
+};
@@ -0,0 +1,116 @@
+import { ConversionMode, ProcessedSlide, ProjectFile } from '../types';
+import { normalizeSlideContent } from './slideValidation';
+import { baseFileName, downloadBlob } from './download';
+import { toDataUrl, toObjectUrl } from './pageImages';
+
+export const PROJECT_FORMAT = 'slideshifter-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.slideshifter.json';
+
+const CONVERSION_MODES: ConversionMode[] = ['AI_EXTRACT', 'IMAGE_ONLY', 'TEXT_LAYER', 'HYBRID'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Projects are written with their format marker first, so the start of the file is enough to tell
+// them from other JSON without reading the embedded page images
+const PROJECT_MARKER = new RegExp(`^\\s*\\{\\s*"format"\\s*:\\s*"${PROJECT_FORMAT}"`);
+
+export const isProjectFile = async (file: File): Promise<boolean> =>
+  file.name.toLowerCase().endsWith('.json') && PROJECT_MARKER.test(await file.slice(0, 256).text());
+
+/**
+ * Saves the whole session (page images, analyses, mode, source name) as a JSON file,
+ * so nothing paid for has to be re-analyzed after a reload or on a colleague's machine.
+ */
+export const saveProject = async (slides: ProcessedSlide[], mode: ConversionMode, sourceFileName: string, sourceFileNames?: string[]) => {
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    sourceFileName,
+    ...(sourceFileNames && sourceFileNames.length > 1 ? { sourceFileNames } : {}),
+    mode,
+    // A slide still in flight is saved as pending so it can be analyzed again after loading.
+    // Page images are embedded, since object URLs only live as long as the tab.
+    slides: await Promise.all(slides.map(async s => ({
+      ...s,
+      originalImage: await toDataUrl(s.originalImage),
+      ...(s.status === 'analyzing' ? { status: 'pending' as const } : {}),
+    }))),
+  };
+
+  const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
+  downloadBlob(blob, `${baseFileName(sourceFileName)}${PROJECT_EXTENSION}`);
+};
+
+/**
+ * Reads a project file back. Analyses go through the same validation as model responses,
+ * since the file may have been edited by hand or written by an older version.
+ */
+export const loadProject = async (file: File): Promise<ProjectFile> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error("Project file is not valid JSON.");
+  }
+
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new Error("This is not a SlideShifter project file.");
+  }
+  if (typeof raw.version !== 'number' || raw.version > PROJECT_VERSION) {
+    throw new Error("This project was saved by a newer version of SlideShifter.");
+  }
+  if (!Array.isArray(raw.slides)) {
+    throw new Error("Project file contains no slides.");
+  }
+
+  const parsedSlides: ProcessedSlide[] = raw.slides.map((slide: unknown, index: number): ProcessedSlide => {
+    if (!isRecord(slide) || typeof slide.originalImage !== 'string' || !slide.originalImage.startsWith('data:image/')) {
+      throw new Error(`Slide ${index + 1} in the project file has no page image.`);
+    }
+    const originalImage = slide.originalImage;
+    const pageNumber = Number.isInteger(slide.pageNumber) && isPositiveNumber(slide.pageNumber) ? { pageNumber: slide.pageNumber } : {};
+    const size = slide.pageSize;
+    const pageSize = isRecord(size) && isPositiveNumber(size.width) && isPositiveNumber(size.height)
+      ? { pageSize: { width: size.width, height: size.height } }
+      : {};
+    const sourceIndex = Number.isInteger(slide.sourceIndex) && typeof slide.sourceIndex === 'number' && slide.sourceIndex >= 0 ? { sourceIndex: slide.sourceIndex } : {};
+    const sourceNotes = typeof slide.sourceNotes === 'string' && slide.sourceNotes.trim() ? { sourceNotes: slide.sourceNotes } : {};
+    if (!slide.analysis) {
+      return { originalImage, analysis: null, status: slide.status === 'done' ? 'done' : 'pending', ...pageNumber, ...pageSize, ...sourceIndex, ...sourceNotes };
+    }
+    const { analysis, warnings } = normalizeSlideContent(slide.analysis);
+    const savedWarnings = Array.isArray(slide.warnings) ? slide.warnings.filter((w): w is string => typeof w === 'string') : [];
+    const allWarnings = [...savedWarnings, ...warnings];
+    return {
+      originalImage,
+      analysis,
+      status: 'done',
+      ...pageNumber,
+      ...pageSize,
+      ...sourceIndex,
+      ...sourceNotes,
+      ...(allWarnings.length > 0 ? { warnings: allWarnings } : {}),
+    };
+  });
+
+  // Back to Blobs, like freshly rendered pages
+  const { version, savedAt, sourceFileName, sourceFileNames, mode } = raw;
+  const slides = await Promise.all(parsedSlides.map(async slide => ({ ...slide, originalImage: await toObjectUrl(slide.originalImage) })));
+
+  return {
+    format: PROJECT_FORMAT,
+    version,
+    savedAt: typeof savedAt === 'string' ? savedAt : '',
+    sourceFileName: typeof sourceFileName === 'string' ? sourceFileName : file.name,
+    ...(Array.isArray(sourceFileNames) && sourceFileNames.every((n): n is string => typeof n === 'string')
+      ? { sourceFileNames }
+      : {}),
+    mode: (CONVERSION_MODES as unknown[]).includes(mode) ? (mode as ConversionMode) : 'AI_EXTRACT',
+    slides,
+  };
+};
@@ -0,0 +1,11 @@
+import { RenderPreset, RenderQuality } from '../types';
+
+export const RENDER_PRESETS: Record<RenderQuality, RenderPreset> = {
+  // Quick previews and large decks: smaller pages, and cheaper analysis calls
+  DRAFT: { scale: 1.5, format: 'image/jpeg', quality: 0.8, modelWidth: 1024 },
+  STANDARD: { scale: 2.5, format: 'image/jpeg', quality: 0.92, modelWidth: 1568 },
+  // Lossless pages for printing or zooming in; the model doesn't gain from more than this
+  PRINT: { scale: 4, format: 'image/png', quality: 1, modelWidth: 2048 },
+};
+
+export const DEFAULT_RENDER_QUALITY: RenderQuality = 'STANDARD';
@@ -0,0 +1,141 @@
+import { ConversionMode, FigureChart, NotesStrategy, ProcessedSlide, SlideContent, SlideParagraph, SlideTextRun } from '../types';
+import { cropImage } from './pptBuilder';
+import { ExportedFile } from './download';
+import { toDataUrl } from './pageImages';
+import { DEFAULT_NOTES_STRATEGY, describeSlide, resolveSpeakerNotes } from './speakerNotes';
+import { columnBreak, slideParagraphs } from './richText';
+
+const REVEAL_CDN = 'https://cdn.jsdelivr.net/npm/reveal.js@5.1.0';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const rowsToHtml = (rows: string[][], headerRow: boolean): string =>
+  `<table>${rows.map((row, ri) =>
+    `<tr>${row.map(cell => (headerRow && ri === 0 ? `<th>${escapeHtml(cell)}</th>` : `<td>${escapeHtml(cell)}</td>`)).join('')}</tr>`).join('')}</table>`;
+
+const chartToHtml = (chart: FigureChart): string =>
+  rowsToHtml([['', ...chart.series.map(s => s.name)], ...chart.categories.map((c, i) => [c, ...chart.series.map(s => String(s.values[i]))])], true);
+
+const runToHtml = (run: SlideTextRun): string => {
+  let html = escapeHtml(run.text);
+  if (run.bold) html = `<strong>${html}</strong>`;
+  if (run.italic) html = `<em>${html}</em>`;
+  return run.url ? `<a href="${escapeHtml(run.url)}">${html}</a>` : html;
+};
+
+// Nests list items by level, at most one level deeper than the item before; plain paragraphs close any open lists
+const paragraphsToHtml = (paragraphs: SlideParagraph[]): string => {
+  let html = '';
+  const open: string[] = []; // Tags of the lists currently open, outermost first
+  for (const paragraph of paragraphs) {
+    const text = paragraph.runs.map(runToHtml).join('');
+    const depth = paragraph.list === 'none' ? 0 : Math.min((paragraph.level ?? 0) + 1, open.length + 1);
+    const tag = paragraph.list === 'number' ? 'ol' : 'ul';
+    while (open.length > depth) html += `</li></${open.pop()}>`;
+    if (depth === 0) {
+      html += `<p>${text}</p>`;
+      continue;
+    }
+    if (open.length === depth) html += open[depth - 1] === tag ? '</li>' : `</li></${open.pop()}>`;
+    while (open.length < depth) {
+      html += `<${tag}>`;
+      open.push(tag);
+    }
+    html += `<li>${text}`;
+  }
+  while (open.length > 0) html += `</li></${open.pop()}>`;
+  return html;
+};
+
+const contentToHtml = (analysis: SlideContent): string => {
+  const paragraphs = slideParagraphs(analysis);
+  if (paragraphs.length === 0) return '';
+  if (analysis.layoutType === 'SECTION_HEADER') {
+    return paragraphs.map(paragraph => `<p>${paragraph.runs.map(runToHtml).join('')}</p>`).join('');
+  }
+  if (analysis.layoutType === 'TWO_COLUMN') {
+    const mid = columnBreak(paragraphs);
+    return `<div class="columns"><div>${paragraphsToHtml(paragraphs.slice(0, mid))}</div><div>${paragraphsToHtml(paragraphs.slice(mid))}</div></div>`;
+  }
+  return paragraphsToHtml(paragraphs);
+};
+
+/**
+ * Builds a standalone reveal.js deck as a single HTML file. Images are inlined as data URLs
+ * but reveal.js itself loads from a CDN, so the slideshow needs a network connection to run.
+ * Charts and tables become HTML tables; notes open in reveal's speaker view (press S).
+ * In image mode every slide is its page image, labelled with the page description if any.
+ */
+export const exportRevealHtml = async (
+  slides: ProcessedSlide[],
+  baseName: string,
+  mode: ConversionMode,
+  notesStrategy: NotesStrategy = DEFAULT_NOTES_STRATEGY
+): Promise<ExportedFile> => {
+  const sections: string[] = [];
+
+  for (const [index, slide] of slides.entries()) {
+    const analysis = slide.analysis;
+    const notes = resolveSpeakerNotes(slide, notesStrategy);
+    const aside = notes ? `<aside class="notes">${escapeHtml(notes)}</aside>` : '';
+    if (!analysis || mode === 'IMAGE_ONLY') {
+      const label = escapeHtml((analysis && describeSlide(analysis)) || `Slide ${index + 1}`);
+      sections.push(`<section data-background-image="${await toDataUrl(slide.originalImage)}" data-background-size="contain" aria-label="${label}">${aside}</section>`);
+      continue;
+    }
+
+    const parts: string[] = [];
+    if (analysis.title) parts.push(analysis.layoutType === 'SECTION_HEADER' ? `<h1>${escapeHtml(analysis.title)}</h1>` : `<h2>${escapeHtml(analysis.title)}</h2>`);
+    parts.push(contentToHtml(analysis));
+
+    for (const figure of analysis.figures ?? []) {
+      if (figure.table) {
+        parts.push(rowsToHtml(figure.table.rows, Boolean(figure.table.headerRow)));
+      } else if (figure.chart) {
+        parts.push(chartToHtml(figure.chart));
+      } else {
+        try {
+          parts.push(`<img src="${await cropImage(slide.originalImage, figure.boundingBox)}" alt="${escapeHtml(figure.description)}">`);
+        } catch (err) {
+          console.error("Failed to crop figure for reveal.js export:", err);
+        }
+      }
+    }
+
+    parts.push(aside);
+
+    const colors = [
+      analysis.backgroundColor ? ` data-background-color="${analysis.backgroundColor}"` : '',
+      analysis.textColor ? ` style="color: ${analysis.textColor}"` : '',
+    ].join('');
+    sections.push(`<section${colors}>\n${parts.filter(Boolean).join('\n')}\n</section>`);
+  }
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(baseName)}</title>
+<link rel="stylesheet" href="${REVEAL_CDN}/dist/reveal.css">
+<link rel="stylesheet" href="${REVEAL_CDN}/dist/theme/white.css">
+<style>
+  .reveal section img { max-height: 45vh; }
+  .reveal section h1, .reveal section h2 { color: inherit; }
+  .reveal table { font-size: 0.6em; }
+  .reveal .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 1em; }
+</style>
+</head>
+<body>
+<div class="reveal"><div class="slides">
+${sections.join('\n')}
+</div></div>
+<script src="${REVEAL_CDN}/dist/reveal.js"></script>
+<script src="${REVEAL_CDN}/plugin/notes/notes.js"></script>
+<script>Reveal.initialize({ hash: true, plugins: [RevealNotes] });</script>
+</body>
+</html>
+`;
+
+  return { blob: new Blob([html], { type: 'text/html' }), fileName: `${baseName}.html` };
+};
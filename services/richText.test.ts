@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessedSlide, SlideContent } from '../types';
+import { withTitle } from './richText';
+import { buildSlideDocument } from './slideDocument';
+import { normalizeSlideContent } from './slideValidation';
+
+const RESPONSE = {
+  title: 'Quarterly Overview',
+  content: ['Revenue grew 12%'],
+  layoutType: 'TITLE_AND_CONTENT',
+  textBlocks: [
+    { text: 'Quarterly Overview', boundingBox: [10, 10, 20, 90], fontSize: 32 },
+    { text: 'Revenue grew 12%', boundingBox: [30, 10, 40, 90], fontSize: 18 },
+  ],
+};
+
+const exportedText = (analysis: SlideContent) => {
+  const slide: ProcessedSlide = { originalImage: 'page.png', pageSize: { width: 720, height: 405 }, analysis, status: 'done' };
+  return buildSlideDocument([slide], 'TEXT_LAYER').slides[0].shapes.flatMap(shape =>
+    shape.type === 'text' ? [shape.runs.map(run => run.text).join('')] : []
+  );
+};
+
+describe('withTitle', () => {
+  it('carries title edits into the block showing the title', () => {
+    const { analysis } = normalizeSlideContent(RESPONSE);
+    expect(exportedText(withTitle(analysis, 'Q3 Overview'))).toEqual(['Q3 Overview', 'Revenue grew 12%']);
+  });
+
+  it('keeps the title block when the title is cleared and retyped', () => {
+    const { analysis } = normalizeSlideContent(RESPONSE);
+    const cleared = withTitle(analysis, '');
+    expect(exportedText(cleared)).toEqual(['Revenue grew 12%']);
+    expect(exportedText(withTitle(cleared, 'Q3 Overview'))).toEqual(['Q3 Overview', 'Revenue grew 12%']);
+  });
+
+  it('keeps the title block of a cleared title through a saved project', () => {
+    const saved = JSON.parse(JSON.stringify(withTitle(normalizeSlideContent(RESPONSE).analysis, '')));
+    const { analysis } = normalizeSlideContent(saved);
+    expect(exportedText(withTitle(analysis, 'Q3 Overview'))).toEqual(['Q3 Overview', 'Revenue grew 12%']);
+  });
+
+  it('leaves other blocks alone when their text equals the title', () => {
+    const { analysis } = normalizeSlideContent(RESPONSE);
+    const renamed = withTitle(withTitle(analysis, 'Revenue grew 12%'), 'Q3 Overview');
+    expect(exportedText(renamed)).toEqual(['Q3 Overview', 'Revenue grew 12%']);
+  });
+});
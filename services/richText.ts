@@ -0,0 +1,124 @@
+import { SlideContent, SlideParagraph, SlideTextBlock } from '../types';
+
+// Deepest list level kept; PowerPoint itself stops at nine
+export const MAX_PARAGRAPH_LEVEL = 8;
+
+// The paragraph as plain text, the form SlideContent.content keeps it in
+export const paragraphText = (paragraph: SlideParagraph): string =>
+  paragraph.runs.map(run => run.text).join('');
+
+// The slide body as paragraphs. Analyses from before paragraphs existed, or from sources
+// without them, read as one top-level bullet per content item.
+export const slideParagraphs = (analysis: SlideContent): SlideParagraph[] =>
+  analysis.paragraphs ?? analysis.content.map(text => ({ runs: [{ text }] }));
+
+// Sets the body from paragraphs, keeping content in step with them
+const withParagraphs = (analysis: SlideContent, paragraphs: SlideParagraph[]): SlideContent => ({
+  ...analysis,
+  content: paragraphs.map(paragraphText),
+  paragraphs,
+});
+
+/**
+ * Where to break a list into two columns: about half way, but never in front of a nested
+ * item, so sub-points stay in the column of the point they belong to.
+ */
+export const columnBreak = (paragraphs: SlideParagraph[]): number => {
+  let midPoint = Math.ceil(paragraphs.length / 2);
+  while (midPoint < paragraphs.length && (paragraphs[midPoint].level ?? 0) > 0) midPoint++;
+  return midPoint;
+};
+
+// Block text spells list markers out at the start of its lines; paragraphs leave them to their list style
+const LIST_MARKER = /^\s*(?:[•◦▪▫■□●○‣⁃\-–—*]|\d{1,2}[.)]|[a-z][.)])\s+/;
+const matchKey = (text: string) =>
+  text.split('\n').map(line => line.replace(LIST_MARKER, '')).join(' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Gives each positioned text block the consecutive paragraphs it holds, so the block keeps
+ * their list styles and formatting. Blocks whose text isn't made of paragraphs stay as they are.
+ * With `listsOnly`, only blocks written as lists take paragraphs: content items carry no list
+ * style of their own, and would turn a plain block into bullets.
+ */
+export const attachParagraphs = (blocks: SlideTextBlock[], paragraphs: SlideParagraph[], listsOnly = false): SlideTextBlock[] => {
+  let next = 0; // Blocks are in reading order, like the paragraphs
+  return blocks.map(block => {
+    if (block.paragraphs) return block;
+    if (listsOnly && !block.text.split('\n').some(line => LIST_MARKER.test(line))) return block;
+    const key = matchKey(block.text);
+    for (let start = next; start < paragraphs.length; start++) {
+      let joined = '';
+      for (let end = start; end < paragraphs.length; end++) {
+        joined = [joined, matchKey(paragraphText(paragraphs[end]))].filter(Boolean).join(' ');
+        if (joined === key) {
+          next = end + 1;
+          return { ...block, paragraphs: paragraphs.slice(start, end + 1) };
+        }
+        if (!key.startsWith(joined)) break;
+      }
+    }
+    return block;
+  });
+};
+
+// Which positioned block holds each body paragraph, by block index
+const paragraphOwners = (paragraphs: SlideParagraph[], blocks: SlideTextBlock[]): (number | undefined)[] => {
+  const owners: (number | undefined)[] = paragraphs.map(() => undefined);
+  let next = 0;
+  blocks.forEach((block, blockIndex) => {
+    const own = block.paragraphs;
+    if (!own?.length) return;
+    for (let start = next; start + own.length <= paragraphs.length; start++) {
+      if (own.every((paragraph, k) => matchKey(paragraphText(paragraph)) === matchKey(paragraphText(paragraphs[start + k])))) {
+        own.forEach((_, k) => { owners[start + k] = blockIndex; });
+        next = start + own.length;
+        return;
+      }
+    }
+  });
+  return owners;
+};
+
+export interface OwnedParagraph {
+  paragraph: SlideParagraph;
+  block?: number; // Index of the positioned block showing it
+}
+
+/**
+ * Edits the body paragraphs and carries the edit over to the positioned blocks holding them,
+ * which are what gets exported when the slide has any. Blocks left without paragraphs go.
+ */
+export const editParagraphs = (analysis: SlideContent, edit: (paragraphs: OwnedParagraph[]) => OwnedParagraph[]): SlideContent => {
+  const paragraphs = slideParagraphs(analysis);
+  const owners = paragraphOwners(paragraphs, analysis.textBlocks ?? []);
+  const edited = edit(paragraphs.map((paragraph, i) => ({ paragraph, block: owners[i] })));
+  const updated = withParagraphs(analysis, edited.map(({ paragraph }) => paragraph));
+  if (!analysis.textBlocks) return updated;
+
+  const textBlocks = analysis.textBlocks.flatMap((block, blockIndex) => {
+    if (!owners.includes(blockIndex)) return [block];
+    const own = edited.filter(e => e.block === blockIndex).map(({ paragraph }) => paragraph);
+    return own.length > 0 ? [{ ...block, text: own.map(paragraphText).join('\n'), paragraphs: own }] : [];
+  });
+  return { ...updated, textBlocks };
+};
+
+/**
+ * Flags the positioned block showing the title, unless one is flagged already. Done once, when
+ * the analysis comes in: from then on the flag, not the text, ties the block to the title, so
+ * the link survives the title being cleared or rewritten.
+ */
+export const markTitleBlock = (blocks: SlideTextBlock[], title: string): SlideTextBlock[] => {
+  if (blocks.some(block => block.title) || !matchKey(title)) return blocks;
+  const index = blocks.findIndex(block => !block.paragraphs && matchKey(block.text) === matchKey(title));
+  return index < 0 ? blocks : blocks.map((block, i) => (i === index ? { ...block, title: true } : block));
+};
+
+// Sets the title, along with the positioned block showing it
+export const withTitle = (analysis: SlideContent, title: string): SlideContent => ({
+  ...analysis,
+  title,
+  ...(analysis.textBlocks
+    ? { textBlocks: analysis.textBlocks.map(block => (block.title ? { ...block, text: title } : block)) }
+    : {}),
+});
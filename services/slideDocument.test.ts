@@ -0,0 +1,266 @@
+import { describe, expect, it } from 'vitest';
+import { BrandTemplate, DocShape, ProcessedSlide, SlideContent, SlideTextBlock } from '../types';
+import { buildSlideDocument } from './slideDocument';
+
+// One slide of every layout type
+const LAYOUTS: Record<SlideContent['layoutType'], SlideContent> = {
+  TITLE_ONLY: {
+    title: 'Thank you',
+    content: [],
+    layoutType: 'TITLE_ONLY',
+    backgroundColor: '#0F172A',
+    textColor: '#FFFFFF',
+  },
+  TITLE_AND_CONTENT: {
+    title: 'Quarterly Overview',
+    content: ['Revenue grew 12%', 'Churn fell to 3.1%'],
+    layoutType: 'TITLE_AND_CONTENT',
+    backgroundColor: '#FFFFFF',
+    textColor: '#1E293B',
+    notes: 'Lead with the revenue number.',
+    figures: [
+      {
+        boundingBox: [40, 50, 80, 90],
+        description: 'Revenue by quarter',
+        chart: { type: 'column', categories: ['Q1', 'Q2'], series: [{ name: 'Revenue', values: [4.2, 4.8] }] },
+      },
+    ],
+  },
+  TWO_COLUMN: {
+    title: 'Before and After',
+    content: ['Manual review', 'Three days', 'Automated review'],
+    layoutType: 'TWO_COLUMN',
+    textColor: '#0F172A',
+  },
+  BLANK: {
+    title: '',
+    content: [],
+    layoutType: 'BLANK',
+    figures: [{ boundingBox: [10, 10, 90, 90], description: 'Team photo at the offsite' }],
+  },
+  SECTION_HEADER: {
+    title: 'Section 2: Roadmap',
+    content: ['What ships next', 'and when'],
+    layoutType: 'SECTION_HEADER',
+    textColor: '#FFFFFF',
+  },
+};
+
+const TEMPLATE: BrandTemplate = {
+  name: 'Acme',
+  fonts: { heading: 'Georgia', body: 'Arial' },
+  palette: { background: '#FFFFFF', text: '#111111', title: '#FF6600', accent: '#FF6600' },
+  layouts: {},
+};
+
+const TITLE_BLOCK: SlideTextBlock = { text: 'Quarterly Overview', boundingBox: [10, 10, 20, 60], fontSize: 32, bold: true };
+const BODY_BLOCK: SlideTextBlock = { text: 'Revenue grew 12%', boundingBox: [30, 10, 40, 50], fontSize: 18, align: 'center', color: '#FF0000' };
+
+const toSlide = (analysis: SlideContent | null, pageSize = { width: 720, height: 405 }): ProcessedSlide => ({
+  originalImage: 'page.png',
+  pageSize,
+  analysis,
+  status: analysis ? 'done' : 'error',
+});
+
+const texts = (shapes: DocShape[]) =>
+  shapes.flatMap(shape => shape.type === 'text' || shape.type === 'placeholder' ? [shape.runs.map(run => run.text)] : []);
+
+describe('buildSlideDocument', () => {
+  describe('slide size', () => {
+    it('is 10 inches wide with the height of the source pages', () => {
+      const doc = buildSlideDocument([toSlide(LAYOUTS.BLANK)], 'IMAGE_ONLY');
+      expect(doc).toMatchObject({ width: 10, height: 5.625 });
+    });
+
+    it('follows the aspect ratio most pages share and letterboxes the others', () => {
+      const doc = buildSlideDocument([
+        toSlide(LAYOUTS.BLANK, { width: 800, height: 600 }),
+        toSlide(LAYOUTS.BLANK),
+        toSlide(LAYOUTS.BLANK),
+      ], 'IMAGE_ONLY');
+      expect(doc.height).toBe(5.625);
+      const [shape] = doc.slides[0].shapes;
+      expect(shape.type === 'image' && shape.rect).toEqual({ x: 1.25, y: 0, w: 7.5, h: 5.625 });
+    });
+
+    it('keeps 16:9 when no page size is known', () => {
+      const doc = buildSlideDocument([{ ...toSlide(LAYOUTS.BLANK), pageSize: undefined }], 'IMAGE_ONLY');
+      expect(doc).toMatchObject({ width: 10, height: 5.625 });
+    });
+  });
+
+  describe('editable layouts', () => {
+    const build = (analysis: SlideContent) => buildSlideDocument([toSlide(analysis)], 'AI_EXTRACT').slides[0];
+
+    it('centers the title of a TITLE_ONLY slide on its background', () => {
+      const slide = build(LAYOUTS.TITLE_ONLY);
+      expect(slide.background).toBe('0F172A');
+      expect(slide.shapes).toEqual([
+        expect.objectContaining({ type: 'text', runs: [{ text: 'Thank you' }], style: expect.objectContaining({ bold: true, align: 'center', color: 'FFFFFF' }) }),
+      ]);
+    });
+
+    it('puts TITLE_AND_CONTENT items in one bulleted box and keeps charts native', () => {
+      const slide = build(LAYOUTS.TITLE_AND_CONTENT);
+      expect(texts(slide.shapes)).toEqual([['Quarterly Overview'], ['Revenue grew 12%', 'Churn fell to 3.1%']]);
+      expect(slide.shapes[1]).toMatchObject({ type: 'text', runs: [{ bullet: true }, { bullet: true }], style: { color: '1E293B' } });
+      expect(slide.shapes[2]).toMatchObject({ type: 'chart', rect: { x: 5, w: 4 } });
+      expect(slide.notes).toBe('Lead with the revenue number.');
+    });
+
+    it('splits TWO_COLUMN items into a left and a right column', () => {
+      const slide = build(LAYOUTS.TWO_COLUMN);
+      expect(texts(slide.shapes)).toEqual([['Before and After'], ['Manual review', 'Three days'], ['Automated review']]);
+      expect(slide.shapes.slice(1).map(shape => shape.type === 'text' && shape.rect.x)).toEqual([0.5, 5]);
+    });
+
+    it('crops the figures of a BLANK slide from the page', () => {
+      const slide = build(LAYOUTS.BLANK);
+      expect(slide.shapes).toEqual([
+        {
+          type: 'image',
+          rect: { x: 1, y: 0.5625, w: 8, h: 4.5 },
+          source: { kind: 'crop', slideIndex: 0, box: [10, 10, 90, 90] },
+          altText: 'Team photo at the offsite',
+        },
+      ]);
+    });
+
+    it('centers the content of a SECTION_HEADER slide without bullets', () => {
+      const slide = build(LAYOUTS.SECTION_HEADER);
+      expect(texts(slide.shapes)).toEqual([['Section 2: Roadmap'], ['What ships next', 'and when']]);
+      expect(slide.shapes[1]).toMatchObject({ style: { align: 'center' } });
+      expect(slide.shapes[1].type === 'text' && slide.shapes[1].runs.some(run => run.bullet)).toBe(false);
+    });
+
+    it('keeps list levels, list styles, formatting and links of the paragraphs', () => {
+      const slide = build({
+        ...LAYOUTS.TITLE_AND_CONTENT,
+        figures: [],
+        paragraphs: [
+          { runs: [{ text: 'Revenue grew ' }, { text: '12%', bold: true }] },
+          { runs: [{ text: 'See ' }, { text: 'regions', url: 'https://example.com/regions' }], level: 1 },
+          { runs: [{ text: 'Churn fell', italic: true }], list: 'number' },
+          { runs: [{ text: 'Source: finance' }], list: 'none' },
+        ],
+      });
+      expect(slide.shapes[1].type === 'text' && slide.shapes[1].runs).toEqual([
+        { text: 'Revenue grew ', bullet: true, indentLevel: undefined },
+        { text: '12%', bold: true, breakLine: true },
+        { text: 'See ', bullet: true, indentLevel: 1 },
+        { text: 'regions', url: 'https://example.com/regions', breakLine: true },
+        { text: 'Churn fell', italic: true, bullet: 'number', indentLevel: undefined, breakLine: true },
+        { text: 'Source: finance', breakLine: true },
+      ]);
+    });
+
+    it('exports slides without analysis as page images', () => {
+      const doc = buildSlideDocument([toSlide(null)], 'AI_EXTRACT');
+      expect(doc.slides[0].shapes).toEqual([expect.objectContaining({ type: 'image', source: { kind: 'page', slideIndex: 0 } })]);
+    });
+  });
+
+  describe('positioned text', () => {
+    const analysis: SlideContent = { ...LAYOUTS.TITLE_AND_CONTENT, figures: [], textBlocks: [TITLE_BLOCK, BODY_BLOCK] };
+
+    it('places each block where it was, with slack for wider fonts', () => {
+      const [title, body] = buildSlideDocument([toSlide(analysis)], 'TEXT_LAYER').slides[0].shapes;
+      expect(title).toMatchObject({ type: 'text', runs: [{ text: 'Quarterly Overview' }], style: { fontSize: 32, bold: true, align: 'left' } });
+      expect(title.type === 'text' && title.rect).toEqual({ x: 1, y: 0.5625, w: 5.2, h: 0.5625 });
+      // Centered blocks grow to both sides
+      expect(body.type === 'text' && body.rect.x).toBeCloseTo(0.9);
+      expect(body).toMatchObject({ style: { align: 'center', color: 'FF0000' } });
+    });
+
+    it('renders a block with paragraphs as a list instead of its plain text', () => {
+      const list: SlideTextBlock = {
+        ...BODY_BLOCK,
+        text: 'Revenue grew 12%\nChurn fell',
+        paragraphs: [
+          { runs: [{ text: 'Revenue grew ' }, { text: '12%', bold: true }] },
+          { runs: [{ text: 'Churn fell' }], level: 1, list: 'number' },
+        ],
+      };
+      const [, body] = buildSlideDocument([toSlide({ ...analysis, textBlocks: [TITLE_BLOCK, list] })], 'TEXT_LAYER').slides[0].shapes;
+      expect(body.type === 'text' && body.runs).toEqual([
+        { text: 'Revenue grew ', bullet: true },
+        { text: '12%', bold: true, breakLine: true },
+        { text: 'Churn fell', bullet: 'number', indentLevel: 1, breakLine: true },
+      ]);
+    });
+
+    it('scales font sizes down on letterboxed pages', () => {
+      const doc = buildSlideDocument([toSlide(analysis, { width: 800, height: 600 }), toSlide(LAYOUTS.BLANK), toSlide(LAYOUTS.BLANK)], 'TEXT_LAYER');
+      expect(doc.slides[0].shapes[0]).toMatchObject({ style: { fontSize: 24 } });
+    });
+
+    it('skips blocks with an empty box or no text', () => {
+      const blocks = [TITLE_BLOCK, { ...BODY_BLOCK, boundingBox: [30, 50, 40, 50] }, { ...BODY_BLOCK, text: ' ' }] as SlideTextBlock[];
+      const doc = buildSlideDocument([toSlide({ ...analysis, textBlocks: blocks })], 'TEXT_LAYER');
+      expect(texts(doc.slides[0].shapes)).toEqual([['Quarterly Overview']]);
+    });
+  });
+
+  describe('hybrid mode', () => {
+    it('paints out the text on the page and puts editable text over it', () => {
+      const doc = buildSlideDocument([toSlide({ ...LAYOUTS.TITLE_AND_CONTENT, textBlocks: [TITLE_BLOCK, BODY_BLOCK] })], 'HYBRID');
+      const [background, ...text] = doc.slides[0].shapes;
+      expect(background).toMatchObject({
+        type: 'image',
+        rect: { x: 0, y: 0, w: 10, h: 5.625 },
+        source: { kind: 'masked', slideIndex: 0, boxes: [TITLE_BLOCK.boundingBox, BODY_BLOCK.boundingBox] },
+      });
+      expect(texts(text)).toEqual([['Quarterly Overview'], ['Revenue grew 12%']]);
+    });
+
+    it('keeps the page image for slides without positioned text', () => {
+      const doc = buildSlideDocument([toSlide(LAYOUTS.TITLE_AND_CONTENT)], 'HYBRID');
+      expect(doc.slides[0].shapes).toEqual([expect.objectContaining({ source: { kind: 'page', slideIndex: 0 } })]);
+    });
+  });
+
+  describe('image mode', () => {
+    it('keeps only the page image of every layout', () => {
+      const slides = Object.values(LAYOUTS).map(analysis => toSlide(analysis));
+      const doc = buildSlideDocument(slides, 'IMAGE_ONLY');
+      expect(doc.masters).toEqual([]);
+      expect(doc.slides.map(slide => slide.shapes)).toEqual(slides.map((_, slideIndex) => [
+        { type: 'image', rect: { x: 0, y: 0, w: 10, h: 5.625 }, source: { kind: 'page', slideIndex }, altText: expect.any(String) },
+      ]));
+      // The page image describes the slide it replaces
+      expect(doc.slides[4].shapes[0]).toMatchObject({ altText: 'Section 2: Roadmap\n- What ships next\n- and when' });
+    });
+  });
+
+  describe('brand template', () => {
+    const build = (analysis: SlideContent) => buildSlideDocument([toSlide(analysis)], 'AI_EXTRACT', { template: TEMPLATE });
+
+    it('adds a master with title and body placeholders for every layout type', () => {
+      const doc = build(LAYOUTS.TITLE_ONLY);
+      expect(doc).toMatchObject({ headingFont: 'Georgia', bodyFont: 'Arial' });
+      expect(doc.masters.map(master => [master.name, master.placeholders.map(p => p.name)])).toEqual([
+        ['BRAND_TITLE_ONLY', ['title', 'body']],
+        ['BRAND_TITLE_AND_CONTENT', ['title', 'body']],
+        ['BRAND_TWO_COLUMN', ['title', 'body', 'bodyRight']],
+        ['BRAND_BLANK', ['title', 'body']],
+        ['BRAND_SECTION_HEADER', ['title', 'body']],
+      ]);
+    });
+
+    it.each(Object.keys(LAYOUTS) as SlideContent['layoutType'][])('fills the %s placeholders', layoutType => {
+      const slide = build(LAYOUTS[layoutType]).slides[0];
+      expect(slide.master).toBe(`BRAND_${layoutType}`);
+      expect(slide.background).toBeUndefined();
+      const placeholders = slide.shapes.flatMap(shape => shape.type === 'placeholder' ? [shape.name] : []);
+      const expected = {
+        TITLE_ONLY: ['title'],
+        TITLE_AND_CONTENT: ['title', 'body'],
+        TWO_COLUMN: ['title', 'body', 'bodyRight'],
+        BLANK: [],
+        SECTION_HEADER: ['title', 'body'],
+      }[layoutType];
+      expect(placeholders).toEqual(expected);
+    });
+  });
+});
@@ -0,0 +1,502 @@
+import {
+  BrandTemplate, ConversionMode, DeckTheme, DocMaster, DocRect, DocShape, DocSlide, DocTextRun, NotesStrategy, PageSize,
+  ProcessedSlide, SlideContent, SlideDocument, SlideParagraph, SlideTextBlock, TemplateBox
+} from '../types';
+import { extractDeckTheme, getSlideMaster, isMasterFigure, isMasterTextBlock } from './deckTheme';
+import { DEFAULT_TEMPLATE_LAYOUTS, getTemplateLayout } from './brandTemplate';
+import { DEFAULT_NOTES_STRATEGY, describeSlide, resolveSpeakerNotes } from './speakerNotes';
+import { isDescribed, orderForReading } from './accessibility';
+import { columnBreak, slideParagraphs } from './richText';
+
+// Lays out the output deck as a SlideDocument: every shape, text run, image reference and note
+// with its final geometry. Pure, so layouts can be inspected without writing a pptx;
+// pptBuilder.ts renders the result with pptxgenjs.
+
+// --- Slide size ---
+
+// Output slides are always 10 inches wide like PowerPoint's default 16:9 layout, so font sizes
+// measured against a 10-inch slide carry over unchanged. The height follows the source pages.
+const SLIDE_WIDTH_IN = 10;
+const DEFAULT_ASPECT_RATIO = 16 / 9;
+
+interface DeckLayout {
+  width: number; // Inches
+  height: number; // Inches
+}
+
+/**
+ * A pptx file has a single slide size, so the deck takes the aspect ratio shared by most pages.
+ * Pages without a known size (e.g. from older project files) keep the 16:9 default.
+ */
+const resolveDeckLayout = (slides: ProcessedSlide[]): DeckLayout => {
+  const votes = new Map<string, { ratio: number; count: number }>();
+  for (const slide of slides) {
+    if (!slide.pageSize || slide.pageSize.width <= 0 || slide.pageSize.height <= 0) continue;
+    const ratio = slide.pageSize.width / slide.pageSize.height;
+    // Bucket so tiny rounding differences between exporters count as the same size
+    const key = ratio.toFixed(2);
+    const vote = votes.get(key) ?? { ratio, count: 0 };
+    vote.count++;
+    votes.set(key, vote);
+  }
+
+  const winner = [...votes.values()].sort((a, b) => b.count - a.count)[0];
+  const ratio = winner ? winner.ratio : DEFAULT_ASPECT_RATIO;
+  // PowerPoint accepts slide sides between 1 and 56 inches
+  const height = Math.min(56, Math.max(1, SLIDE_WIDTH_IN / ratio));
+  return { width: SLIDE_WIDTH_IN, height: Math.round(height * 1000) / 1000 };
+};
+
+// Scales a page to fit the slide without distortion, centering it (letterboxing) when
+// its aspect ratio differs from the deck's.
+const fitPageFrame = (pageSize: PageSize | undefined, layout: DeckLayout): DocRect => {
+  if (!pageSize || pageSize.width <= 0 || pageSize.height <= 0) {
+    return { x: 0, y: 0, w: layout.width, h: layout.height };
+  }
+  const scale = Math.min(layout.width / pageSize.width, layout.height / pageSize.height);
+  const w = pageSize.width * scale;
+  const h = pageSize.height * scale;
+  return { x: (layout.width - w) / 2, y: (layout.height - h) / 2, w, h };
+};
+
+// Maps a [ymin, xmin, ymax, xmax] percentage box on the page onto the slide, in inches
+const boxToFrame = (box: [number, number, number, number], frame: DocRect): DocRect => {
+  const [ymin, xmin, ymax, xmax] = box;
+  return {
+    x: frame.x + (xmin / 100) * frame.w,
+    y: frame.y + (ymin / 100) * frame.h,
+    w: ((xmax - xmin) / 100) * frame.w,
+    h: ((ymax - ymin) / 100) * frame.h
+  };
+};
+
+const hex = (color: string) => color.replace('#', '');
+
+// --- Positioned text ---
+
+// Places a text block exactly where it sat on the source slide.
+// Fonts in the output rarely match the source metrics, so the box gets a little
+// horizontal slack to keep lines from wrapping earlier than in the original.
+const textBlockShape = (block: SlideTextBlock, fallbackColor: string, frame: DocRect): Extract<DocShape, { type: 'text' }> => {
+  const [ymin, xmin, ymax, xmax] = block.boundingBox;
+  const slack = 2;
+  const align = block.align ?? 'left';
+  let x = xmin;
+  let w = xmax - xmin + slack;
+  if (align === 'center') x = xmin - slack / 2;
+  if (align === 'right') x = xmin - slack;
+  x = Math.max(0, x);
+  w = Math.min(100 - x, w);
+
+  return {
+    type: 'text',
+    rect: boxToFrame([ymin, x, ymax, x + w], frame),
+    // Body text brings its paragraphs, whose list markers become real bullets
+    runs: block.paragraphs ? paragraphRuns(block.paragraphs) : [{ text: block.text }],
+    style: {
+      // Sizes are measured against a 10-inch wide page; letterboxed pages are narrower
+      fontSize: Math.round(block.fontSize * (frame.w / SLIDE_WIDTH_IN) * 10) / 10,
+      bold: block.bold,
+      italic: block.italic,
+      // Unset falls back to the deck theme font
+      fontFace: block.fontFamily,
+      color: block.color ? hex(block.color) : fallbackColor,
+      align,
+      valign: 'top',
+      margin: 0,
+      autoFit: false
+    }
+  };
+};
+
+// --- Body text ---
+
+// One run per formatted stretch, the paragraph's list style and level on its first run.
+// Without lists (section headers) every paragraph is plain, whatever its list style.
+const paragraphRuns = (paragraphs: SlideParagraph[], lists = true): DocTextRun[] =>
+  paragraphs.flatMap(({ runs, level, list }) =>
+    runs.map((run, i): DocTextRun => ({
+      text: run.text,
+      bold: run.bold,
+      italic: run.italic,
+      url: run.url,
+      ...(i === 0 && lists && list !== 'none' ? { bullet: list === 'number' ? 'number' : true, indentLevel: level } : {}),
+      ...(i === runs.length - 1 ? { breakLine: true } : {}),
+    }))
+  );
+
+const isValidTextBlock = (block: SlideTextBlock) => {
+  const [ymin, xmin, ymax, xmax] = block.boundingBox;
+  if (xmax <= xmin || ymax <= ymin || !block.text.trim()) {
+    console.warn("Skipping invalid text block:", block);
+    return false;
+  }
+  return true;
+};
+
+// --- Deck theme ---
+
+/**
+ * One slide master per color cluster of the deck theme, carrying its background and the
+ * footers, page number and logos shared by its slides.
+ * Recurring elements are positioned using the page they were taken from.
+ */
+const themeMasters = (theme: DeckTheme, slides: ProcessedSlide[], layout: DeckLayout): DocMaster[] =>
+  theme.masters.map(master => {
+    const textColor = hex(master.textColor);
+    const shapes: DocShape[] = [];
+
+    for (const logo of master.recurringFigures) {
+      const source = slides[logo.sourceIndex];
+      shapes.push({
+        type: 'image',
+        rect: boxToFrame(logo.boundingBox, fitPageFrame(source.pageSize, layout)),
+        source: { kind: 'crop', slideIndex: logo.sourceIndex, box: logo.boundingBox },
+        altText: logo.description && isDescribed({ description: logo.description }) ? logo.description : undefined
+      });
+    }
+    for (const { block, sourceIndex } of master.recurringText) {
+      shapes.push(textBlockShape(block, textColor, fitPageFrame(slides[sourceIndex].pageSize, layout)));
+    }
+
+    let slideNumber: DocMaster['slideNumber'];
+    if (master.slideNumber) {
+      const { block, sourceIndex } = master.slideNumber;
+      const { rect, style: { fontSize, fontFace, color, align } } = textBlockShape(block, textColor, fitPageFrame(slides[sourceIndex].pageSize, layout));
+      slideNumber = { rect, style: { fontSize, fontFace, color, align, margin: 0 } };
+    }
+
+    return { name: master.name, background: hex(master.backgroundColor), shapes, placeholders: [], slideNumber };
+  });
+
+// Fixed layout used when the analysis carries no positioned text blocks.
+const templateTextShapes = (slideData: SlideContent, fgColor: string, layout: DeckLayout, headingFont?: string): DocShape[] => {
+  const shapes: DocShape[] = [];
+  const paragraphs = slideParagraphs(slideData);
+
+  if (slideData.title) {
+    shapes.push({
+      type: 'text',
+      rect: { x: 0.5, y: 0.5, w: layout.width * 0.9, h: 1 },
+      runs: [{ text: slideData.title }],
+      style: { fontSize: 32, fontFace: headingFont, bold: true, color: fgColor, align: 'center' }
+    });
+  }
+  if (paragraphs.length === 0) return shapes;
+
+  // Text layout stays standard; figures are placed absolutely on top
+  const textY = 1.8;
+  const textH = layout.height * 0.7;
+
+  if (slideData.layoutType === 'TWO_COLUMN') {
+    const midPoint = columnBreak(paragraphs);
+    const columns: [number, SlideParagraph[]][] = [[0.5, paragraphs.slice(0, midPoint)], [5.0, paragraphs.slice(midPoint)]];
+    for (const [x, items] of columns) {
+      if (items.length === 0) continue;
+      shapes.push({
+        type: 'text',
+        rect: { x, y: textY, w: 4.2, h: textH },
+        runs: paragraphRuns(items),
+        style: { fontSize: 18, color: fgColor }
+      });
+    }
+  } else if (slideData.layoutType === 'SECTION_HEADER') {
+    shapes.push({
+      type: 'text',
+      rect: { x: 1, y: 2.5, w: layout.width * 0.8, h: 3 },
+      runs: paragraphRuns(paragraphs, false),
+      style: { fontSize: 24, align: 'center', color: fgColor }
+    });
+  } else {
+    shapes.push({
+      type: 'text',
+      rect: { x: 0.5, y: textY, w: layout.width * 0.9, h: textH },
+      runs: paragraphRuns(paragraphs),
+      style: { fontSize: 18, color: fgColor, align: 'left', valign: 'top' }
+    });
+  }
+  return shapes;
+};
+
+// --- Brand template ---
+
+const LAYOUT_TYPES: SlideContent['layoutType'][] = ['TITLE_ONLY', 'TITLE_AND_CONTENT', 'TWO_COLUMN', 'BLANK', 'SECTION_HEADER'];
+
+const brandMasterName = (layoutType: SlideContent['layoutType']) => `BRAND_${layoutType}`;
+
+const templateBoxToInches = (box: TemplateBox, layout: DeckLayout): DocRect => ({
+  x: (box.x / 100) * layout.width,
+  y: (box.y / 100) * layout.height,
+  w: (box.w / 100) * layout.width,
+  h: (box.h / 100) * layout.height,
+});
+
+/**
+ * One slide master per layout type from the brand template: background, logo, and
+ * title/body placeholders at the template's geometry. Layouts the template leaves out use
+ * the built-in positions, and every layout gets a title and body so no content is dropped.
+ */
+const brandMasters = (template: BrandTemplate, layout: DeckLayout): DocMaster[] => {
+  const scale = layout.width / SLIDE_WIDTH_IN;
+  const fallback = DEFAULT_TEMPLATE_LAYOUTS.TITLE_AND_CONTENT;
+
+  return LAYOUT_TYPES.map(layoutType => {
+    const spec = getTemplateLayout(template, layoutType);
+    const centered = layoutType === 'SECTION_HEADER';
+    const shapes: DocShape[] = template.logo
+      ? [{ type: 'image', rect: templateBoxToInches(template.logo.box, layout), source: { kind: 'url', url: template.logo.image }, altText: `${template.name} logo` }]
+      : [];
+
+    const placeholders: DocMaster['placeholders'] = [{
+      name: 'title',
+      kind: 'title',
+      rect: templateBoxToInches(spec.title ?? fallback.title!, layout),
+      style: {
+        fontFace: template.fonts.heading,
+        fontSize: Math.round((template.titleFontSize ?? 32) * scale),
+        color: hex(template.palette.title ?? template.palette.text),
+        bold: true,
+        align: layoutType === 'TITLE_ONLY' || centered ? 'center' : 'left',
+        valign: 'middle',
+      },
+    }];
+
+    const bodySlots: ['body' | 'bodyRight', TemplateBox][] = [['body', spec.body ?? fallback.body!]];
+    if (layoutType === 'TWO_COLUMN') {
+      bodySlots.push(['bodyRight', spec.bodyRight ?? DEFAULT_TEMPLATE_LAYOUTS.TWO_COLUMN.bodyRight!]);
+    }
+    for (const [name, box] of bodySlots) {
+      placeholders.push({
+        name,
+        kind: 'body',
+        rect: templateBoxToInches(box, layout),
+        style: {
+          fontFace: template.fonts.body,
+          fontSize: Math.round((template.bodyFontSize ?? 18) * scale),
+          color: hex(template.palette.text),
+          align: centered ? 'center' : 'left',
+          valign: 'top',
+        },
+      });
+    }
+
+    return { name: brandMasterName(layoutType), background: hex(spec.background ?? template.palette.background), shapes, placeholders };
+  });
+};
+
+// Fills the brand master's placeholders with the slide's title and content.
+const brandedTextShapes = (slideData: SlideContent): DocShape[] => {
+  const shapes: DocShape[] = [];
+  if (slideData.title) {
+    shapes.push({ type: 'placeholder', name: 'title', runs: [{ text: slideData.title }] });
+  }
+  const paragraphs = slideParagraphs(slideData);
+  if (paragraphs.length === 0) return shapes;
+
+  if (slideData.layoutType === 'TWO_COLUMN') {
+    const midPoint = columnBreak(paragraphs);
+    shapes.push({ type: 'placeholder', name: 'body', runs: paragraphRuns(paragraphs.slice(0, midPoint)) });
+    if (midPoint < paragraphs.length) {
+      shapes.push({ type: 'placeholder', name: 'bodyRight', runs: paragraphRuns(paragraphs.slice(midPoint)) });
+    }
+  } else if (slideData.layoutType === 'SECTION_HEADER') {
+    shapes.push({ type: 'placeholder', name: 'body', runs: paragraphRuns(paragraphs, false) });
+  } else {
+    shapes.push({ type: 'placeholder', name: 'body', runs: paragraphRuns(paragraphs) });
+  }
+  return shapes;
+};
+
+// --- Slides ---
+
+// Shapes with a position of their own, i.e. everything but placeholder text
+type PlacedShape = Exclude<DocShape, { type: 'placeholder' }>;
+
+// The page render as a full-slide image. Used for image mode and as the fallback for
+// slides that have no analysis, so the deck keeps every source page.
+// Image mode can still have an analysis, made only to describe the page for screen readers.
+const imageSlide = (slide: ProcessedSlide, slideIndex: number, layout: DeckLayout): DocSlide => ({
+  shapes: [{
+    type: 'image',
+    rect: fitPageFrame(slide.pageSize, layout),
+    source: { kind: 'page', slideIndex },
+    altText: slide.analysis ? describeSlide(slide.analysis) : undefined,
+  }]
+});
+
+// Charts and tables with readable data become native objects so the numbers stay editable;
+// other figures are cropped from the page render.
+const figureShapes = (slideData: SlideContent, slideIndex: number, frame: DocRect, fgColor: string, skip: (figure: NonNullable<SlideContent['figures']>[number]) => boolean): PlacedShape[] => {
+  const shapes: PlacedShape[] = [];
+  for (const figure of slideData.figures ?? []) {
+    if (skip(figure)) continue;
+    const [ymin, xmin, ymax, xmax] = figure.boundingBox;
+    if (xmax <= xmin || ymax <= ymin) {
+      console.warn("Skipping invalid figure bounding box:", figure.boundingBox);
+      continue;
+    }
+
+    const rect = boxToFrame(figure.boundingBox, frame);
+    const altText = isDescribed(figure) ? figure.description : undefined;
+    if (figure.chart) {
+      shapes.push({ type: 'chart', rect, chart: figure.chart, color: fgColor, altText });
+    } else if (figure.table) {
+      // Font sized to fit the rows
+      const rowHeightPt = (rect.h / figure.table.rows.length) * 72;
+      const fontSize = Math.max(6, Math.min(14, Math.round(rowHeightPt * 0.45)));
+      shapes.push({ type: 'table', rect, table: figure.table, fontSize, color: fgColor });
+    } else {
+      shapes.push({ type: 'image', rect, source: { kind: 'crop', slideIndex, box: figure.boundingBox }, altText });
+    }
+  }
+  return shapes;
+};
+
+/**
+ * Each slide is just the full image of the PDF page.
+ * Fast conversion, visual fidelity is 100%, but not editable text.
+ */
+const buildImageDocument = (slides: ProcessedSlide[]): SlideDocument => {
+  const layout = resolveDeckLayout(slides);
+  return {
+    title: 'Converted Presentation (Image Mode)',
+    ...layout,
+    masters: [],
+    slides: slides.map((slide, index) => imageSlide(slide, index, layout)),
+  };
+};
+
+/**
+ * Editable text and extracted figures from the analysis.
+ * Slides whose analysis failed fall back to the full page image, keeping page count and order.
+ */
+const buildEditableDocument = (slides: ProcessedSlide[], theme: DeckTheme, template?: BrandTemplate): SlideDocument => {
+  const layout = resolveDeckLayout(slides);
+  const doc: SlideDocument = {
+    title: 'Converted Presentation',
+    company: 'Made with Gemini',
+    ...layout,
+    masters: [],
+    slides: [],
+  };
+
+  if (template) {
+    // The brand template replaces the source deck's own styling wholesale
+    doc.headingFont = template.fonts.heading;
+    doc.bodyFont = template.fonts.body;
+    doc.masters = brandMasters(template, layout);
+  } else {
+    if (theme.headingFont || theme.bodyFont) {
+      doc.headingFont = theme.headingFont;
+      doc.bodyFont = theme.bodyFont ?? theme.headingFont;
+    }
+    doc.masters = themeMasters(theme, slides, layout);
+  }
+
+  for (const [index, slideItem] of slides.entries()) {
+    const slideData = slideItem.analysis;
+    if (!slideData) {
+      doc.slides.push(imageSlide(slideItem, index, layout));
+      continue;
+    }
+
+    const master = template ? undefined : getSlideMaster(theme, index);
+    const masterName = template ? brandMasterName(slideData.layoutType) : master?.name;
+    const frame = fitPageFrame(slideItem.pageSize, layout);
+    const slide: DocSlide = { shapes: [] };
+    if (masterName) slide.master = masterName;
+
+    // Slides on a master take its background and text color
+    if (!masterName && slideData.backgroundColor) {
+      slide.background = hex(slideData.backgroundColor);
+    }
+    const textColor = template ? template.palette.text : master ? master.textColor : slideData.textColor;
+    const fgColor = textColor ? hex(textColor) : '000000';
+
+    const figures = figureShapes(slideData, index, frame, fgColor, figure => !!master && isMasterFigure(master, figure));
+
+    if (template) {
+      // Text goes into the template's placeholders; original positions are not kept
+      slide.shapes.push(...brandedTextShapes(slideData), ...figures);
+    } else if (slideData.textBlocks && slideData.textBlocks.length > 0) {
+      // Position-faithful path: every block goes where it was in the original,
+      // except footers and page numbers the master already draws
+      const placed: PlacedShape[] = slideData.textBlocks
+        .filter(block => !(master && isMasterTextBlock(master, block)) && isValidTextBlock(block))
+        .map(block => textBlockShape(block, fgColor, frame));
+      // Shape order is the order screen readers follow, so text and figures are interleaved as read
+      slide.shapes.push(...orderForReading([...placed, ...figures], shape => shape.rect));
+    } else {
+      slide.shapes.push(...templateTextShapes(slideData, fgColor, layout, theme.headingFont), ...figures);
+    }
+    doc.slides.push(slide);
+  }
+
+  return doc;
+};
+
+/**
+ * Keeps the page render as the slide background, with the original text painted out, and
+ * puts editable text boxes where that text was.
+ * Looks almost like image mode while titles and bullets stay editable and searchable.
+ * Slides without positioned text blocks are exported as plain page images.
+ */
+const buildHybridDocument = (slides: ProcessedSlide[]): SlideDocument => {
+  const layout = resolveDeckLayout(slides);
+  return {
+    title: 'Converted Presentation (Hybrid Mode)',
+    company: 'Made with Gemini',
+    ...layout,
+    masters: [],
+    slides: slides.map((slideItem, index): DocSlide => {
+      const slideData = slideItem.analysis;
+      const blocks = (slideData?.textBlocks ?? []).filter(b => b.text.trim());
+      if (!slideData || blocks.length === 0) {
+        return imageSlide(slideItem, index, layout);
+      }
+
+      const frame = fitPageFrame(slideItem.pageSize, layout);
+      const fgColor = slideData.textColor ? hex(slideData.textColor) : '000000';
+      // The text is painted out of the background, so its alt text only covers the pictures left on it
+      const pictures = (slideData.figures ?? []).filter(isDescribed).map(f => f.description);
+      const texts = blocks.filter(isValidTextBlock).map(block => textBlockShape(block, fgColor, frame));
+      return {
+        shapes: [
+          {
+            type: 'image',
+            rect: frame,
+            source: { kind: 'masked', slideIndex: index, boxes: blocks.map(b => b.boundingBox) },
+            altText: pictures.length > 0 ? pictures.join('; ') : undefined,
+          },
+          ...orderForReading(texts, shape => shape.rect),
+        ],
+      };
+    }),
+  };
+};
+
+export interface DeckOptions {
+  theme?: DeckTheme; // Derived from the slides when unset
+  template?: BrandTemplate; // Replaces the theme; AI and text-layer modes only
+  notes?: NotesStrategy;
+}
+
+const buildModeDocument = (slides: ProcessedSlide[], mode: ConversionMode, { theme, template }: DeckOptions): SlideDocument => {
+  if (mode === 'IMAGE_ONLY') return buildImageDocument(slides);
+  if (mode === 'HYBRID') return buildHybridDocument(slides);
+  return buildEditableDocument(slides, theme ?? extractDeckTheme(slides), template);
+};
+
+/**
+ * Lays out the deck for a conversion mode. Image references in the result index into `slides`,
+ * so render it together with the same array.
+ */
+export const buildSlideDocument = (slides: ProcessedSlide[], mode: ConversionMode, options: DeckOptions = {}): SlideDocument => {
+  const doc = buildModeDocument(slides, mode, options);
+  // Every mode keeps one output slide per source slide, page-image fallbacks included
+  doc.slides.forEach((slide, index) => {
+    const notes = resolveSpeakerNotes(slides[index], options.notes ?? DEFAULT_NOTES_STRATEGY);
+    if (notes) slide.notes = notes;
+  });
+  return doc;
+};
@@ -0,0 +1,379 @@
+import { AnalysisResult, ConversionMode, FigureChart, FigureTable, SlideContent, SlideFigure, SlideParagraph, SlideTextBlock, SlideTextRun } from '../types';
+import { attachParagraphs, markTitleBlock, MAX_PARAGRAPH_LEVEL, paragraphText, slideParagraphs } from './richText';
+
+type Box = [number, number, number, number];
+
+const LAYOUT_TYPES: SlideContent['layoutType'][] = ['TITLE_ONLY', 'TITLE_AND_CONTENT', 'TWO_COLUMN', 'BLANK', 'SECTION_HEADER'];
+const ALIGNMENTS: NonNullable<SlideTextBlock['align']>[] = ['left', 'center', 'right'];
+const CHART_TYPES: FigureChart['type'][] = ['bar', 'column', 'line', 'pie'];
+const LIST_STYLES: NonNullable<SlideParagraph['list']>[] = ['bullet', 'number', 'none'];
+
+// Models regularly answer with CSS names instead of hex codes
+const NAMED_COLORS: Record<string, string> = {
+  white: '#FFFFFF', black: '#000000', red: '#FF0000', green: '#008000', blue: '#0000FF',
+  yellow: '#FFFF00', orange: '#FFA500', purple: '#800080', gray: '#808080', grey: '#808080',
+  silver: '#C0C0C0', navy: '#000080', teal: '#008080', maroon: '#800000', olive: '#808000',
+  lime: '#00FF00', aqua: '#00FFFF', cyan: '#00FFFF', fuchsia: '#FF00FF', magenta: '#FF00FF',
+  darkgray: '#A9A9A9', darkgrey: '#A9A9A9', lightgray: '#D3D3D3', lightgrey: '#D3D3D3',
+  darkblue: '#00008B', lightblue: '#ADD8E6',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Turns "#abc", "AABBCC", "white" or "rgb(1, 2, 3)" into "#RRGGBB". Returns undefined if it can't.
+ */
+export const normalizeColor = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const raw = value.trim().toLowerCase();
+
+  if (NAMED_COLORS[raw]) return NAMED_COLORS[raw];
+
+  const hex = raw.replace(/^#/, '');
+  if (/^[0-9a-f]{6}$/.test(hex)) return `#${hex.toUpperCase()}`;
+  if (/^[0-9a-f]{3}$/.test(hex)) return `#${hex.split('').map(c => c + c).join('').toUpperCase()}`;
+
+  const rgb = raw.match(/^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})/);
+  if (rgb) {
+    return '#' + rgb.slice(1, 4).map(c => Math.min(255, Number(c)).toString(16).padStart(2, '0')).join('').toUpperCase();
+  }
+
+  return undefined;
+};
+
+/**
+ * Coerces a bounding box onto the 0-100 scale. Boxes on a 0-1000 scale (Gemini's native
+ * detection format) or 0-1 scale are rescaled, swapped min/max are fixed, and values are
+ * clamped. Returns undefined for anything that doesn't describe a visible area.
+ */
+export const normalizeBoundingBox = (value: unknown, label: string, warnings: string[]): Box | undefined => {
+  if (!Array.isArray(value) || value.length !== 4 || value.some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+    warnings.push(`${label}: bounding box is not four numbers, dropped.`);
+    return undefined;
+  }
+
+  let box = value as number[];
+  const max = Math.max(...box);
+  if (max > 100 && max <= 1000) {
+    warnings.push(`${label}: bounding box looked like a 0-1000 scale, rescaled.`);
+    box = box.map(v => v / 10);
+  } else if (max <= 1 && box.some(v => v > 0)) {
+    warnings.push(`${label}: bounding box looked like a 0-1 scale, rescaled.`);
+    box = box.map(v => v * 100);
+  }
+
+  const clamped = box.map(v => Math.min(100, Math.max(0, v)));
+  if (clamped.some((v, i) => v !== box[i])) {
+    warnings.push(`${label}: bounding box exceeded the slide, clamped.`);
+  }
+
+  let [ymin, xmin, ymax, xmax] = clamped;
+  if (ymin > ymax || xmin > xmax) {
+    warnings.push(`${label}: bounding box corners were swapped, fixed.`);
+    [ymin, ymax] = [Math.min(ymin, ymax), Math.max(ymin, ymax)];
+    [xmin, xmax] = [Math.min(xmin, xmax), Math.max(xmin, xmax)];
+  }
+
+  if (ymax - ymin < 0.5 || xmax - xmin < 0.5) {
+    warnings.push(`${label}: bounding box has no area, dropped.`);
+    return undefined;
+  }
+
+  return [ymin, xmin, ymax, xmax];
+};
+
+// Numbers sometimes come back as strings ("1,200", "35%")
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  const parsed = parseFloat(value.replace(/[,%\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Checks chart data is consistent enough to draw. Series are padded or trimmed to the
+ * category count; a chart without categories or numeric series is dropped, which makes
+ * the figure fall back to a cropped image.
+ */
+const normalizeChart = (value: unknown, label: string, warnings: string[]): FigureChart | undefined => {
+  if (!isRecord(value)) {
+    warnings.push(`${label}: chart data is not an object, using the image.`);
+    return undefined;
+  }
+  if (!(CHART_TYPES as unknown[]).includes(value.type)) {
+    warnings.push(`${label}: unsupported chart type "${String(value.type)}", using the image.`);
+    return undefined;
+  }
+
+  const categories = Array.isArray(value.categories)
+    ? value.categories.map(c => (typeof c === 'string' || typeof c === 'number' ? String(c) : ''))
+    : [];
+  if (categories.length === 0) {
+    warnings.push(`${label}: chart has no categories, using the image.`);
+    return undefined;
+  }
+
+  const series = (Array.isArray(value.series) ? value.series : [])
+    .filter(isRecord)
+    .map((raw, i) => {
+      const values = (Array.isArray(raw.values) ? raw.values : []).map(v => toNumber(v) ?? 0);
+      if (values.length !== categories.length) {
+        warnings.push(`${label}: series ${i + 1} has ${values.length} values for ${categories.length} categories, adjusted.`);
+      }
+      return {
+        name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : `Series ${i + 1}`,
+        values: categories.map((_, ci) => values[ci] ?? 0),
+      };
+    });
+  if (series.length === 0) {
+    warnings.push(`${label}: chart has no data series, using the image.`);
+    return undefined;
+  }
+
+  return { type: value.type as FigureChart['type'], categories, series };
+};
+
+// Ragged rows are padded with empty cells so the table stays rectangular
+const normalizeTable = (value: unknown, label: string, warnings: string[]): FigureTable | undefined => {
+  const rows = isRecord(value) && Array.isArray(value.rows)
+    ? value.rows.filter(Array.isArray).map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell))))
+    : [];
+  if (rows.length === 0 || rows.every(row => row.length === 0)) {
+    warnings.push(`${label}: table has no rows, using the image.`);
+    return undefined;
+  }
+
+  const columns = Math.max(...rows.map(row => row.length));
+  if (rows.some(row => row.length !== columns)) {
+    warnings.push(`${label}: table rows have different lengths, padded.`);
+  }
+
+  const table: FigureTable = { rows: rows.map(row => [...row, ...Array(columns - row.length).fill('')]) };
+  if (isRecord(value) && typeof value.headerRow === 'boolean') table.headerRow = value.headerRow;
+  return table;
+};
+
+const normalizeFigures = (value: unknown, warnings: string[]): SlideFigure[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    warnings.push('Figures were not a list, dropped.');
+    return undefined;
+  }
+
+  const figures: SlideFigure[] = [];
+  value.forEach((raw, i) => {
+    const label = `Figure ${i + 1}`;
+    if (!isRecord(raw)) {
+      warnings.push(`${label}: not an object, dropped.`);
+      return;
+    }
+    const boundingBox = normalizeBoundingBox(raw.boundingBox, label, warnings);
+    if (!boundingBox) return;
+    const figure: SlideFigure = { boundingBox, description: typeof raw.description === 'string' ? raw.description : '' };
+    const chart = raw.chart !== undefined && raw.chart !== null ? normalizeChart(raw.chart, label, warnings) : undefined;
+    if (chart) figure.chart = chart;
+    const table = raw.table !== undefined && raw.table !== null ? normalizeTable(raw.table, label, warnings) : undefined;
+    if (table) figure.table = table;
+    figures.push(figure);
+  });
+  return figures;
+};
+
+const normalizeTextBlocks = (value: unknown, warnings: string[]): SlideTextBlock[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    warnings.push('Text blocks were not a list, dropped.');
+    return undefined;
+  }
+
+  const blocks: SlideTextBlock[] = [];
+  value.forEach((raw, i) => {
+    const label = `Text block ${i + 1}`;
+    // The title block stays when the title was cleared, so retyping the title brings it back
+    if (!isRecord(raw) || typeof raw.text !== 'string' || (!raw.text.trim() && raw.title !== true)) {
+      warnings.push(`${label}: has no text, dropped.`);
+      return;
+    }
+    const boundingBox = normalizeBoundingBox(raw.boundingBox, label, warnings);
+    if (!boundingBox) return;
+
+    let fontSize = typeof raw.fontSize === 'number' && Number.isFinite(raw.fontSize) ? raw.fontSize : 18;
+    if (fontSize < 6 || fontSize > 120) {
+      warnings.push(`${label}: font size ${fontSize}pt is implausible, clamped.`);
+      fontSize = Math.min(120, Math.max(6, fontSize));
+    }
+
+    const block: SlideTextBlock = { text: raw.text, boundingBox, fontSize };
+    if (typeof raw.bold === 'boolean') block.bold = raw.bold;
+    if (typeof raw.italic === 'boolean') block.italic = raw.italic;
+    if (typeof raw.fontFamily === 'string' && raw.fontFamily.trim()) block.fontFamily = raw.fontFamily.trim();
+    if ((ALIGNMENTS as unknown[]).includes(raw.align)) {
+      block.align = raw.align as SlideTextBlock['align'];
+    } else if (raw.align !== undefined) {
+      warnings.push(`${label}: unknown alignment "${String(raw.align)}", using left.`);
+    }
+    if (raw.color !== undefined) {
+      block.color = normalizeColor(raw.color);
+      if (!block.color) warnings.push(`${label}: unreadable color "${String(raw.color)}", using slide text color.`);
+    }
+    const paragraphs = normalizeParagraphs(raw.paragraphs, warnings);
+    if (paragraphs?.length) block.paragraphs = paragraphs;
+    if (raw.title === true) block.title = true;
+    blocks.push(block);
+  });
+  return blocks;
+};
+
+// Only links a viewer can follow; anything else is kept as plain text
+const normalizeUrl = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const url = value.trim();
+  if (/^(https?:\/\/|mailto:)\S+$/i.test(url)) return url;
+  if (/^www\.\S+$/i.test(url)) return `https://${url}`;
+  return undefined;
+};
+
+const normalizeRun = (raw: unknown, label: string, warnings: string[]): SlideTextRun | undefined => {
+  if (!isRecord(raw) || typeof raw.text !== 'string' || raw.text.length === 0) return undefined;
+  const run: SlideTextRun = { text: raw.text };
+  if (raw.bold === true) run.bold = true;
+  if (raw.italic === true) run.italic = true;
+  if (raw.url !== undefined && raw.url !== null && raw.url !== '') {
+    run.url = normalizeUrl(raw.url);
+    if (!run.url) warnings.push(`${label}: unusable link "${String(raw.url)}", kept as text.`);
+  }
+  return run;
+};
+
+/**
+ * Checks the structured body text. Paragraphs without any text are dropped, levels are
+ * clamped to whole numbers PowerPoint can show, and unknown list styles become bullets.
+ */
+const normalizeParagraphs = (value: unknown, warnings: string[]): SlideParagraph[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    warnings.push('Paragraphs were not a list, dropped.');
+    return undefined;
+  }
+
+  const paragraphs: SlideParagraph[] = [];
+  value.forEach((raw, i) => {
+    const label = `Paragraph ${i + 1}`;
+    const runs = isRecord(raw) && Array.isArray(raw.runs)
+      ? raw.runs.map(run => normalizeRun(run, label, warnings)).filter((run): run is SlideTextRun => run !== undefined)
+      : [];
+    // Leading and trailing space is trimmed off the paragraph, like content items
+    if (runs.length > 0) {
+      runs[0].text = runs[0].text.trimStart();
+      runs[runs.length - 1].text = runs[runs.length - 1].text.trimEnd();
+    }
+    const paragraph: SlideParagraph = { runs: runs.filter(run => run.text.length > 0) };
+    if (!isRecord(raw) || !paragraphText(paragraph)) {
+      warnings.push(`${label}: has no text, dropped.`);
+      return;
+    }
+
+    if (raw.level !== undefined) {
+      const level = toNumber(raw.level);
+      const clamped = level === undefined ? 0 : Math.min(MAX_PARAGRAPH_LEVEL, Math.max(0, Math.round(level)));
+      if (clamped !== level) warnings.push(`${label}: list level "${String(raw.level)}" is not usable, set to ${clamped}.`);
+      if (clamped > 0) paragraph.level = clamped;
+    }
+    if ((LIST_STYLES as unknown[]).includes(raw.list)) {
+      paragraph.list = raw.list as SlideParagraph['list'];
+    } else if (raw.list !== undefined) {
+      warnings.push(`${label}: unknown list style "${String(raw.list)}", using bullets.`);
+    }
+    paragraphs.push(paragraph);
+  });
+  return paragraphs;
+};
+
+/**
+ * Validates a model response and coerces it into a SlideContent the builders can rely on.
+ * Fixable problems are repaired and reported as warnings; a response that isn't an
+ * object at all is rejected.
+ */
+export const normalizeSlideContent = (raw: unknown): AnalysisResult => {
+  if (!isRecord(raw)) {
+    throw new Error("Analysis result is not an object.");
+  }
+
+  const warnings: string[] = [];
+
+  let title = '';
+  if (typeof raw.title === 'string') {
+    title = raw.title.trim();
+  } else if (raw.title !== undefined && raw.title !== null) {
+    warnings.push('Title was not text, ignored.');
+  }
+
+  let content: string[] = [];
+  if (Array.isArray(raw.content)) {
+    content = raw.content
+      .map(item => (typeof item === 'string' || typeof item === 'number' ? String(item).trim() : ''))
+      .filter(item => item.length > 0);
+    if (content.length !== raw.content.length) {
+      warnings.push('Some content items were empty or not text, dropped.');
+    }
+  } else if (typeof raw.content === 'string') {
+    content = raw.content.split('\n').map(item => item.trim()).filter(Boolean);
+    warnings.push('Content was a single string, split into lines.');
+  } else if (raw.content !== undefined) {
+    warnings.push('Content was not a list, ignored.');
+  }
+
+  // Paragraphs are the richer form of the content, so content is taken from them when both are given
+  const paragraphs = normalizeParagraphs(raw.paragraphs, warnings);
+  if (paragraphs?.length) content = paragraphs.map(paragraphText);
+
+  let layoutType = raw.layoutType as SlideContent['layoutType'];
+  if (!(LAYOUT_TYPES as unknown[]).includes(layoutType)) {
+    layoutType = content.length > 0 ? 'TITLE_AND_CONTENT' : title ? 'TITLE_ONLY' : 'BLANK';
+    warnings.push(`Unknown layout "${String(raw.layoutType)}", using ${layoutType.replace(/_/g, ' ')}.`);
+  }
+
+  const analysis: SlideContent = { title, content, layoutType };
+  if (paragraphs?.length) analysis.paragraphs = paragraphs;
+
+  for (const key of ['backgroundColor', 'textColor'] as const) {
+    if (raw[key] === undefined || raw[key] === null || raw[key] === '') continue;
+    const color = normalizeColor(raw[key]);
+    if (color) {
+      analysis[key] = color;
+    } else {
+      warnings.push(`Unreadable ${key === 'backgroundColor' ? 'background' : 'text'} color "${String(raw[key])}", ignored.`);
+    }
+  }
+
+  if (typeof raw.notes === 'string' && raw.notes.trim()) {
+    analysis.notes = raw.notes.trim();
+  }
+
+  const figures = normalizeFigures(raw.figures, warnings);
+  if (figures) analysis.figures = figures;
+
+  // Blocks holding body text take its paragraphs, so positioned text keeps lists and formatting too
+  // and content edits can reach it; the block showing the title is flagged for title edits
+  const textBlocks = normalizeTextBlocks(raw.textBlocks, warnings);
+  if (textBlocks) {
+    analysis.textBlocks = markTitleBlock(attachParagraphs(textBlocks, slideParagraphs(analysis), !paragraphs?.length), title);
+  }
+
+  if (!title && content.length === 0 && !textBlocks?.length && !figures?.length) {
+    warnings.push('No text or figures were found on this slide.');
+  }
+
+  return { analysis, warnings };
+};
+
+/**
+ * Problems the conversion mode runs into with an otherwise valid analysis. Kept apart from
+ * normalizeSlideContent because cached analyses are shared between modes.
+ */
+export const modeWarnings = (analysis: SlideContent, mode: ConversionMode): string[] =>
+  // Matches buildHybridDocument, which keeps such slides as the plain page image
+  mode === 'HYBRID' && !analysis.textBlocks?.some(block => block.text.trim())
+    ? ['No positioned text was found; in hybrid mode this slide is exported as a picture without editable text.']
+    : [];
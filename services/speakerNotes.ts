@@ -0,0 +1,41 @@
+import { NotesStrategy, ProcessedSlide, SlideContent } from '../types';
+
+// The notes analyzers have always written; the app switches to ORIGINAL when the PDF has notes of its own
+export const DEFAULT_NOTES_STRATEGY: NotesStrategy = 'AI_SUMMARY';
+
+// Everything on the slide as plain text, for presenters reading along and for screen readers
+export const describeSlide = (analysis: SlideContent): string | undefined => {
+  const lines: string[] = [];
+  if (analysis.title) lines.push(analysis.title);
+  lines.push(...analysis.content.map(item => `- ${item.replace(/\n/g, ' ')}`));
+
+  for (const figure of analysis.figures ?? []) {
+    if (figure.chart) {
+      const series = figure.chart.series.map(s => s.name).filter(Boolean).join(', ');
+      lines.push(`${figure.chart.type[0].toUpperCase()}${figure.chart.type.slice(1)} chart: ${figure.description}${series ? ` (${series})` : ''}`);
+    } else if (figure.table) {
+      const columns = figure.table.rows[0]?.length ?? 0;
+      lines.push(`Table with ${figure.table.rows.length} rows and ${columns} columns: ${figure.description}`);
+    } else if (figure.description) {
+      lines.push(`Image: ${figure.description}`);
+    }
+  }
+  return lines.length > 0 ? lines.join('\n') : undefined;
+};
+
+/**
+ * The speaker notes to write for a slide. There is no fallback between strategies: a slide
+ * without notes of the chosen kind gets none, so the choice is predictable across the deck.
+ */
+export const resolveSpeakerNotes = (slide: ProcessedSlide, strategy: NotesStrategy): string | undefined => {
+  switch (strategy) {
+    case 'ORIGINAL':
+      return slide.sourceNotes;
+    case 'AI_SUMMARY':
+      return slide.analysis?.notes;
+    case 'DESCRIPTION':
+      return slide.analysis ? describeSlide(slide.analysis) : undefined;
+    case 'NONE':
+      return undefined;
+  }
+};
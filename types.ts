@@ -1,31 +1,274 @@
 export enum AppState {
   IDLE = 'IDLE',
+  SELECTING_PAGES = 'SELECTING_PAGES',
   PROCESSING_PDF = 'PROCESSING_PDF',
   ANALYZING_SLIDES = 'ANALYZING_SLIDES',
+  REVIEWING = 'REVIEWING',
   GENERATING_PPT = 'GENERATING_PPT',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR'
 }
 
-export type ConversionMode = 'AI_EXTRACT' | 'IMAGE_ONLY';
+export type ConversionMode = 'AI_EXTRACT' | 'IMAGE_ONLY' | 'TEXT_LAYER' | 'HYBRID';
+
+export type RenderQuality = 'DRAFT' | 'STANDARD' | 'PRINT';
+
+// What goes into each slide's speaker notes: the PDF's own notes, the analyzer's short summary,
+// a full text description of the slide, or nothing
+export type NotesStrategy = 'ORIGINAL' | 'AI_SUMMARY' | 'DESCRIPTION' | 'NONE';
+
+// How pages are rasterized, and how large a copy of each page the analyzer gets to see
+export interface RenderPreset {
+  scale: number; // Relative to the page size in points (1 = 72 dpi)
+  format: 'image/jpeg' | 'image/png';
+  quality: number; // JPEG quality, 0-1; ignored for PNG
+  modelWidth: number; // Pixel width of the image sent to the analyzer
+}
+
+export interface ChartSeries {
+  name: string;
+  values: number[]; // One per category
+}
+
+export interface FigureChart {
+  type: 'bar' | 'column' | 'line' | 'pie';
+  categories: string[];
+  series: ChartSeries[]; // Pie charts use the first series only
+}
+
+export interface FigureTable {
+  rows: string[][]; // Cell text, row by row; all rows have the same length
+  headerRow?: boolean; // First row is a header
+}
 
 export interface SlideFigure {
   boundingBox: [number, number, number, number]; // ymin, xmin, ymax, xmax (0-100 scale)
   description: string;
+  chart?: FigureChart; // When set, exported as a native chart instead of a cropped image
+  table?: FigureTable; // When set, exported as a native table instead of a cropped image
+}
+
+export interface SlideTextBlock {
+  text: string;
+  boundingBox: [number, number, number, number]; // ymin, xmin, ymax, xmax (0-100 scale)
+  fontSize: number; // Points, relative to a standard 10-inch wide slide
+  bold?: boolean;
+  italic?: boolean;
+  fontFamily?: string; // e.g. "Calibri"; the deck theme font when unset
+  color?: string; // Hex color code (e.g. #000000)
+  align?: 'left' | 'center' | 'right';
+  paragraphs?: SlideParagraph[]; // Body text only: the block's text with its list styles and formatting
+  title?: boolean; // Shows the slide title, so title edits carry over to it
+}
+
+// A stretch of body text with one formatting
+export interface SlideTextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  url?: string; // Hyperlink target
+}
+
+export interface SlideParagraph {
+  runs: SlideTextRun[];
+  level?: number; // List nesting, 0 for top-level items
+  list?: 'bullet' | 'number' | 'none'; // Bullet when unset
 }
 
 export interface SlideContent {
   title: string;
   content: string[]; // Bullet points or paragraphs
+  paragraphs?: SlideParagraph[]; // The same paragraphs as content, with nesting, list style and formatting
   layoutType: 'TITLE_ONLY' | 'TITLE_AND_CONTENT' | 'TWO_COLUMN' | 'BLANK' | 'SECTION_HEADER';
   backgroundColor?: string;
   textColor?: string;
   notes?: string;
   figures?: SlideFigure[];
+  textBlocks?: SlideTextBlock[]; // Positioned text runs, when the source carries them
+}
+
+export interface PageSize {
+  width: number; // Points (1/72 inch), as reported by the PDF
+  height: number;
 }
 
 export interface ProcessedSlide {
-  originalImage: string; // Base64
+  originalImage: string; // Object URL of the page render; data URLs work too
   analysis: SlideContent | null;
   status: 'pending' | 'analyzing' | 'done' | 'error';
-}
\ No newline at end of file
+  warnings?: string[]; // Problems fixed up while validating the analysis
+  fromCache?: boolean; // Analysis came from the local cache rather than a new model call
+  pageNumber?: number; // 1-based page in the source PDF, which can differ from slide order
+  pageSize?: PageSize;
+  sourceIndex?: number; // Which input file the slide came from, when several were converted together
+  sourceNotes?: string; // Notes found in the PDF itself: annotations, or the notes part of a notes page
+}
+
+// Something drawn once on a master instead of on every slide, taken from the slide at sourceIndex
+export interface RecurringElement {
+  sourceIndex: number;
+  boundingBox: [number, number, number, number]; // ymin, xmin, ymax, xmax (0-100 scale)
+}
+
+export interface ThemeMaster {
+  name: string;
+  backgroundColor: string; // Hex color code
+  textColor: string; // Hex color code
+  recurringText: (RecurringElement & { block: SlideTextBlock })[]; // Footers, headers, confidentiality notes
+  recurringFigures: (RecurringElement & { description?: string })[]; // Logos and other small repeated images
+  slideNumber?: RecurringElement & { block: SlideTextBlock }; // Where the page number sits; its text is ignored
+}
+
+export interface DeckTheme {
+  headingFont?: string;
+  bodyFont?: string;
+  masters: ThemeMaster[];
+  slideMasters: (string | undefined)[]; // Master name per slide index; undefined keeps the slide's own styles
+}
+
+// Position on the slide in percent of its width (x, w) and height (y, h)
+export interface TemplateBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface TemplateLayout {
+  title?: TemplateBox;
+  body?: TemplateBox;
+  bodyRight?: TemplateBox; // Second column, used by TWO_COLUMN
+  background?: string; // Hex color code; overrides the palette background for this layout
+}
+
+// A company brand spec, uploaded as JSON and applied in place of the source styling
+export interface BrandTemplate {
+  name: string;
+  fonts: { heading: string; body: string };
+  palette: { background: string; text: string; title?: string; accent?: string }; // Hex color codes
+  titleFontSize?: number; // Points on a 10-inch wide slide
+  bodyFontSize?: number;
+  logo?: { image: string; box: TemplateBox }; // Image as a data URL or http(s) URL
+  layouts: Partial<Record<SlideContent['layoutType'], TemplateLayout>>;
+}
+
+// --- Slide document: the output deck as plain data, before any pptx is written ---
+
+// Position and size on the output slide, in inches
+export interface DocRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface DocTextStyle {
+  fontSize?: number; // Points
+  fontFace?: string; // The theme font when unset
+  bold?: boolean;
+  italic?: boolean;
+  color?: string; // Hex without '#'
+  align?: 'left' | 'center' | 'right';
+  valign?: 'top' | 'middle';
+  margin?: number; // Points; the renderer's default when unset
+  autoFit?: boolean; // False keeps the box from shrinking text that overflows
+}
+
+export interface DocTextRun {
+  text: string;
+  breakLine?: boolean; // Starts a new paragraph after this run
+  // Paragraph properties, read from the paragraph's first run
+  bullet?: boolean | 'number';
+  indentLevel?: number;
+  bold?: boolean;
+  italic?: boolean;
+  url?: string; // Hyperlink target
+}
+
+// Images are referenced, not embedded: cropping and masking need pixels, so the renderer does them
+export type DocImageSource =
+  | { kind: 'page'; slideIndex: number } // The full render of a source page
+  | { kind: 'crop'; slideIndex: number; box: [number, number, number, number] } // A region of it, 0-100 scale
+  | { kind: 'masked'; slideIndex: number; boxes: [number, number, number, number][] } // With these regions painted out
+  | { kind: 'url'; url: string };
+
+export type DocShape =
+  | { type: 'text'; rect: DocRect; runs: DocTextRun[]; style: DocTextStyle }
+  | { type: 'image'; rect: DocRect; source: DocImageSource; altText?: string }
+  | { type: 'chart'; rect: DocRect; chart: FigureChart; color: string; altText?: string }
+  | { type: 'table'; rect: DocRect; table: FigureTable; fontSize: number; color: string }
+  | { type: 'placeholder'; name: string; runs: DocTextRun[] }; // Fills a placeholder of the slide's master
+
+export interface DocPlaceholder {
+  name: string;
+  kind: 'title' | 'body';
+  rect: DocRect;
+  style: DocTextStyle;
+}
+
+export interface DocMaster {
+  name: string;
+  background: string; // Hex without '#'
+  shapes: DocShape[];
+  placeholders: DocPlaceholder[];
+  slideNumber?: { rect: DocRect; style: DocTextStyle };
+}
+
+export interface DocSlide {
+  master?: string;
+  background?: string; // Hex without '#'; only for slides without a master
+  shapes: DocShape[];
+  notes?: string;
+}
+
+export interface SlideDocument {
+  title: string;
+  company?: string;
+  width: number; // Inches
+  height: number;
+  headingFont?: string;
+  bodyFont?: string;
+  masters: DocMaster[];
+  slides: DocSlide[];
+}
+
+export type AccessibilityIssueKind = 'MISSING_TITLE' | 'LOW_CONTRAST' | 'UNDESCRIBED_IMAGE';
+
+export interface AccessibilityIssue {
+  slideIndex: number;
+  kind: AccessibilityIssueKind;
+  message: string;
+}
+
+export type AnalyzerProvider = 'GEMINI' | 'OPENAI_COMPATIBLE' | 'MOCK';
+
+export interface AnalyzerConfig {
+  provider: AnalyzerProvider;
+  model: string;
+  endpoint?: string; // Base URL for OPENAI_COMPATIBLE, e.g. http://localhost:11434/v1
+  apiKey?: string; // Optional for local servers; Gemini reads its key from the environment
+}
+
+// A validated analysis plus whatever had to be repaired to get there
+export interface AnalysisResult {
+  analysis: SlideContent;
+  warnings: string[];
+}
+
+// Anything that can turn a rendered slide image into SlideContent
+export interface SlideAnalyzer {
+  id: string; // Stable identity of provider + model, used to key cached results
+  name: string;
+  analyzeSlideImage: (base64Image: string, signal?: AbortSignal) => Promise<AnalysisResult>;
+}
+
+// Portable snapshot of a conversion session, saved and re-opened as JSON
+export interface ProjectFile {
+  format: 'slideshifter-project';
+  version: number;
+  savedAt: string; // ISO timestamp
+  sourceFileName: string;
+  sourceFileNames?: string[]; // All input files, indexed by ProcessedSlide.sourceIndex
+  mode: ConversionMode;
+  slides: ProcessedSlide[];
+}